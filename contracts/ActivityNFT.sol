@@ -5,12 +5,15 @@ import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 
 /**
  * @title ActivityNFT
  * @notice Free mint NFT contract for multi-chain monthly activity rewards
  * @dev Deploy one contract per month (October, November, December)
- *      Activity verification happens off-chain in the frontend
+ *      Activity verification happens off-chain; activity tiers are scored by the
+ *      app's server, which signs the tier each wallet may mint
  */
 contract ActivityNFT is ERC721, ERC721URIStorage, Ownable, Pausable {
     uint256 private _nextTokenId;
@@ -20,10 +23,18 @@ contract ActivityNFT is ERC721, ERC721URIStorage, Ownable, Pausable {
     /// @notice Tracks whether an address has already minted
     mapping(address => bool) public hasMinted;
 
+    /// @notice Metadata URIs for activity tiers, lowest tier first
+    string[] private _tierURIs;
+
+    /// @notice Signer whose approval mintWithTier requires; unset disables tiered minting
+    address public tierSigner;
+
     event NFTMinted(address indexed minter, uint256 indexed tokenId, string tokenURI);
     event MaxSupplyUpdated(uint256 newMaxSupply);
     event DefaultTokenURIUpdated(string newDefaultURI);
     event TokenURIUpdated(uint256 indexed tokenId, string newTokenURI);
+    event TierURIsUpdated(uint256 tierCount);
+    event TierSignerUpdated(address newSigner);
 
     /**
      * @param _name Token name (e.g., "Pharos Atlantic October")
@@ -47,6 +58,32 @@ contract ActivityNFT is ERC721, ERC721URIStorage, Ownable, Pausable {
      * @return tokenId The ID of the newly minted token
      */
     function mint() external whenNotPaused returns (uint256) {
+        return _mintWithURI(defaultTokenURI);
+    }
+
+    /**
+     * @notice Mint a free NFT with the metadata of an activity tier (one per wallet)
+     * @dev The tier signer approves the tier for the caller by signing
+     *      keccak256(abi.encode(chainId, this contract, minter, tier)) as an
+     *      Ethereum signed message
+     * @param tier Index into the configured tier URIs
+     * @param signature The tier signer's signature
+     * @return tokenId The ID of the newly minted token
+     */
+    function mintWithTier(uint256 tier, bytes calldata signature) external whenNotPaused returns (uint256) {
+        require(tier < _tierURIs.length, "Invalid tier");
+        bytes32 digest = MessageHashUtils.toEthSignedMessageHash(
+            keccak256(abi.encode(block.chainid, address(this), msg.sender, tier))
+        );
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(digest, signature);
+        require(
+            tierSigner != address(0) && error == ECDSA.RecoverError.NoError && signer == tierSigner,
+            "Invalid tier signature"
+        );
+        return _mintWithURI(_tierURIs[tier]);
+    }
+
+    function _mintWithURI(string memory uri) private returns (uint256) {
         require(!hasMinted[msg.sender], "Already minted");
         require(_nextTokenId < maxSupply, "Max supply reached");
 
@@ -55,9 +92,9 @@ contract ActivityNFT is ERC721, ERC721URIStorage, Ownable, Pausable {
         hasMinted[msg.sender] = true;
 
         _safeMint(msg.sender, tokenId);
-        _setTokenURI(tokenId, defaultTokenURI);
+        _setTokenURI(tokenId, uri);
 
-        emit NFTMinted(msg.sender, tokenId, defaultTokenURI);
+        emit NFTMinted(msg.sender, tokenId, uri);
         return tokenId;
     }
 
@@ -83,6 +120,28 @@ contract ActivityNFT is ERC721, ERC721URIStorage, Ownable, Pausable {
         emit DefaultTokenURIUpdated(_defaultTokenURI);
     }
 
+    /**
+     * @notice Replace the activity tier metadata URIs
+     * @dev Does not affect already minted tokens
+     * @param tierURIs_ Metadata URIs, lowest tier first
+     */
+    function setTierURIs(string[] calldata tierURIs_) external onlyOwner {
+        delete _tierURIs;
+        for (uint256 i = 0; i < tierURIs_.length; i++) {
+            _tierURIs.push(tierURIs_[i]);
+        }
+        emit TierURIsUpdated(tierURIs_.length);
+    }
+
+    /**
+     * @notice Set the signer that approves tiers for mintWithTier
+     * @param signer Signer address, or the zero address to disable tiered minting
+     */
+    function setTierSigner(address signer) external onlyOwner {
+        tierSigner = signer;
+        emit TierSignerUpdated(signer);
+    }
+
     /**
      * @notice Update the token URI for a specific already-minted token
      * @param tokenId The token ID to update
@@ -118,6 +177,14 @@ contract ActivityNFT is ERC721, ERC721URIStorage, Ownable, Pausable {
         return _nextTokenId;
     }
 
+    /**
+     * @notice Get the configured activity tier metadata URIs
+     * @return Metadata URIs, lowest tier first
+     */
+    function tierURIs() external view returns (string[] memory) {
+        return _tierURIs;
+    }
+
     // ============ Required Overrides ============
 
     function tokenURI(uint256 tokenId) public view override(ERC721, ERC721URIStorage) returns (string memory) {
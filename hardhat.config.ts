@@ -16,6 +16,11 @@ const config: HardhatUserConfig = {
   },
   networks: {
     hardhat: {},
+    // `npx hardhat node`, using its prefunded accounts
+    localhost: {
+      url: "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
     pharos_testnet: {
       url: process.env.PHAROS_RPC_URL || "https://atlantic.dplabs-internal.com",
       accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
@@ -26,6 +31,25 @@ const config: HardhatUserConfig = {
       accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
       chainId: 984,
     },
+    ethereum_sepolia: {
+      url: process.env.SEPOLIA_RPC_URL || "https://ethereum-sepolia-rpc.publicnode.com",
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+      chainId: 11155111,
+    },
+    base_sepolia: {
+      url: process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org",
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+      chainId: 84532,
+    },
+    arbitrum_sepolia: {
+      url: process.env.ARBITRUM_SEPOLIA_RPC_URL || "https://sepolia-rollup.arbitrum.io/rpc",
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+      chainId: 421614,
+    },
+  },
+  // Etherscan V2: one key verifies contracts on every chain above but Pharos and IOPN
+  etherscan: {
+    apiKey: process.env.ETHERSCAN_API_KEY || "",
   },
   paths: {
     sources: "./contracts",
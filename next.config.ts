@@ -1,5 +1,23 @@
 import type { NextConfig } from "next";
 
+// NEXT_PUBLIC_ variables are inlined into the client bundle, so secrets must
+// never use the prefix. Explorer API keys and the deployer key are server-only.
+const SECRET_NAME = /(API_KEY|SECRET|PRIVATE_KEY|PASSWORD|TOKEN)$/;
+
+function assertNoPublicSecrets() {
+  const exposed = Object.keys(process.env).filter(
+    (name) => name.startsWith("NEXT_PUBLIC_") && SECRET_NAME.test(name) && process.env[name]
+  );
+  if (exposed.length > 0) {
+    throw new Error(
+      `Refusing to start: ${exposed.join(", ")} would ship in the client bundle. ` +
+        `Rename without the NEXT_PUBLIC_ prefix (e.g. ${exposed[0].replace(/^NEXT_PUBLIC_/, "")}).`
+    );
+  }
+}
+
+assertNoPublicSecrets();
+
 const nextConfig: NextConfig = {
   images: {
     remotePatterns: [
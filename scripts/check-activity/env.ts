@@ -0,0 +1,6 @@
+import * as dotenv from "dotenv";
+import path from "path";
+
+// Imported first: the app's modules read contract addresses, RPC URLs and
+// explorer keys from the environment when they load
+dotenv.config({ path: path.join(__dirname, "..", "..", ".env.local"), quiet: true });
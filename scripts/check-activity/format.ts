@@ -0,0 +1,57 @@
+import { type ActivityOutcome, type ChainId, type Month } from "../../src/types";
+
+export interface CheckRow {
+  address: string;
+  chain: ChainId;
+  month: Month;
+  outcome: ActivityOutcome | null;   // null when the month has no contract to mint from
+}
+
+function describeStatus(row: CheckRow): string {
+  return row.outcome ? row.outcome.status : "no contract";
+}
+
+function describeDetail({ outcome }: CheckRow): string {
+  if (!outcome) return "";
+  if (outcome.error) return `${outcome.error.code}: ${outcome.error.message}`;
+
+  const parts: string[] = [];
+  if (outcome.evidence) {
+    const date = new Date(outcome.evidence.timestamp * 1000).toISOString().slice(0, 10);
+    parts.push(`${outcome.evidence.hash} (block ${outcome.evidence.blockNumber}, ${date})`);
+  }
+  if (outcome.questId) parts.push(`quest ${outcome.questId}`);
+  if (outcome.score) parts.push(`score ${outcome.score.score}`);
+  return parts.join(", ");
+}
+
+export function formatTable(rows: CheckRow[]): string {
+  const header = ["ADDRESS", "MONTH", "STATUS", "CHECKER", "EVIDENCE"];
+  const lines = rows.map((row) => [
+    row.address,
+    row.month,
+    describeStatus(row),
+    row.outcome?.checker ?? "",
+    describeDetail(row),
+  ]);
+  const widths = header.map((title, i) => Math.max(title.length, ...lines.map((line) => line[i].length)));
+
+  return [header, ...lines]
+    .map((line) => line.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd())
+    .join("\n");
+}
+
+// One object per address and month; evidence and errors as the checkers report them
+export function formatJson(rows: CheckRow[]): string {
+  return JSON.stringify(
+    rows.map(({ address, chain, month, outcome }) => ({
+      address,
+      chain,
+      month,
+      deployed: outcome !== null,
+      ...(outcome ?? { status: null }),
+    })),
+    null,
+    2
+  );
+}
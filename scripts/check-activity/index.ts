@@ -0,0 +1,159 @@
+import "./env";
+import fs from "fs";
+import { parseArgs } from "util";
+import { isAddress } from "viem";
+import { CHAINS, isValidChainSlug } from "../../src/lib/chains";
+import { getMonthConfigsForChain } from "../../src/lib/contracts";
+import {
+  checkActivityForMonth,
+  configureActivityCheck,
+  createFileCacheStore,
+  fetchActivityForMonth,
+  toErrorInfo,
+} from "../../src/lib/activityCheck/node";
+import { type ActivityOutcome, type ChainId, type MonthConfig } from "../../src/types";
+import { formatJson, formatTable, type CheckRow } from "./format";
+
+/**
+ * Check wallets' activity from the command line
+ *
+ * Usage:
+ *   npm run check-activity -- --chain iopn-testnet --month December --address 0x...
+ *   npm run check-activity -- --chain pharos-atlantic --file wallets.txt --json
+ *
+ * Options:
+ *   --chain      Chain slug (required)
+ *   --month      Month name, or several separated by commas; every configured month by default
+ *   --address    Wallet to check, may be repeated
+ *   --file       File with one wallet per line; blank lines and # comments are skipped
+ *   --json       Print JSON instead of a table
+ *   --base-url   Check through a deployed app's /api/activity instead of calling
+ *                the explorers from here with the keys in .env.local
+ *   --cache      JSON file to keep conclusive results and month ranges in between runs
+ *
+ * Exits with 1 on invalid arguments and 2 when any check came back unknown.
+ */
+
+const USAGE =
+  "Usage: npm run check-activity -- --chain <slug> [--month <Month>[,<Month>...]] " +
+  "(--address <0x...> | --file <path>) [--json] [--base-url <url>] [--cache <file>]";
+
+class UsageError extends Error {}
+
+const OPTIONS = {
+  chain: { type: "string" },
+  month: { type: "string" },
+  address: { type: "string", multiple: true },
+  file: { type: "string" },
+  json: { type: "boolean", default: false },
+  "base-url": { type: "string" },
+  cache: { type: "string" },
+} as const;
+
+function parseCli() {
+  let values;
+  try {
+    ({ values } = parseArgs({ options: OPTIONS }));
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+
+  const chainSlug = values.chain ?? "";
+  if (!isValidChainSlug(chainSlug)) {
+    throw new UsageError(`Unknown chain: ${chainSlug || "(none)"}. Use ${Object.keys(CHAINS).join(", ")}`);
+  }
+
+  const addresses = [...(values.address ?? [])];
+  if (values.file) {
+    const lines = fs.readFileSync(values.file, "utf8").split("\n");
+    addresses.push(...lines.map((line) => line.replace(/#.*/, "").trim()).filter(Boolean));
+  }
+  if (addresses.length === 0) {
+    throw new UsageError("Pass --address or --file");
+  }
+  const invalid = addresses.find((address) => !isAddress(address, { strict: false }));
+  if (invalid) {
+    throw new UsageError(`Invalid address: ${invalid}`);
+  }
+
+  return {
+    chainSlug,
+    months: selectMonths(chainSlug, values.month),
+    addresses,
+    json: values.json,
+    baseUrl: values["base-url"]?.replace(/\/+$/, "") ?? null,
+    cacheFile: values.cache ?? null,
+  };
+}
+
+function selectMonths(chainSlug: ChainId, option: string | undefined): MonthConfig[] {
+  const configs = getMonthConfigsForChain(chainSlug);
+  if (!option) return configs;
+
+  return option.split(",").map((name) => {
+    const config = configs.find((c) => c.name.toLowerCase() === name.trim().toLowerCase());
+    if (!config) {
+      throw new UsageError(
+        `Invalid month: ${name} for ${chainSlug}. Must be ${configs.map((c) => c.name).join(", ")}`
+      );
+    }
+    return config;
+  });
+}
+
+async function main() {
+  const { chainSlug, months, addresses, json, baseUrl, cacheFile } = parseCli();
+  configureActivityCheck({
+    baseUrl,
+    ...(cacheFile ? { cache: createFileCacheStore(cacheFile) } : {}),
+  });
+
+  const rows: CheckRow[] = [];
+  for (const address of addresses) {
+    for (const config of months) {
+      // Progress goes to stderr so the output can be piped
+      process.stderr.write(`Checking ${address} for ${config.name} ${config.year}...\n`);
+      const outcome = await check(address, chainSlug, config, baseUrl);
+      rows.push({ address, chain: chainSlug, month: config.name, outcome });
+    }
+  }
+
+  console.log(json ? formatJson(rows) : formatTable(rows));
+  if (rows.some((row) => row.outcome?.status === "unknown")) {
+    process.exitCode = 2;
+  }
+}
+
+// A deployed app knows its own contracts; checked from here, months without a
+// contract address in the environment are reported as such
+async function check(
+  address: string,
+  chainSlug: ChainId,
+  config: MonthConfig,
+  baseUrl: string | null
+): Promise<ActivityOutcome | null> {
+  if (baseUrl !== null) {
+    // The app being unavailable leaves this one check unknown, like any other failure
+    return fetchActivityForMonth(address, chainSlug, config.name).catch((error): ActivityOutcome => ({
+      status: "unknown",
+      checker: null,
+      evidence: null,
+      questId: null,
+      score: null,
+      error: toErrorInfo(error),
+    }));
+  }
+  if (!config.contractAddress || config.contractAddress === "0x") {
+    return null;
+  }
+  return checkActivityForMonth(address, chainSlug, config.name);
+}
+
+main().catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\n\n${USAGE}`);
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
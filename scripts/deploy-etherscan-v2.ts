@@ -0,0 +1,109 @@
+import hre from "hardhat";
+import { configureTiers } from "./tiers";
+import { type ChainId } from "../src/types";
+
+const { ethers } = hre;
+
+/**
+ * Deploy ActivityNFT contracts to the testnets checked through Etherscan V2
+ * One contract per month: October, November, December, January, February
+ *
+ * Usage (network: ethereum_sepolia, base_sepolia or arbitrum_sepolia):
+ *   DEPLOY_MONTH=October npx hardhat run scripts/deploy-etherscan-v2.ts --network base_sepolia
+ *
+ * Or deploy all months at once:
+ *   DEPLOY_ALL=true npx hardhat run scripts/deploy-etherscan-v2.ts --network base_sepolia
+ *
+ * Metadata URIs are read from NEXT_PUBLIC_<CHAIN>_<MONTH>_METADATA_URI, the same
+ * variables the app uses, and may be left unset.
+ * Tier URIs come from the month's tiers in src/lib/contracts.ts, see scripts/tiers.ts.
+ * With ETHERSCAN_API_KEY set, each contract is also verified.
+ */
+
+interface NetworkConfig {
+  label: string;                 // Collection name prefix
+  symbolPrefix: string;
+  envPrefix: string;             // As in NEXT_PUBLIC_<envPrefix>_<MONTH>_ADDRESS
+  chainSlug: ChainId;            // Where the month's tiers are configured
+}
+
+const NETWORKS: Record<string, NetworkConfig> = {
+  ethereum_sepolia: { label: "Sepolia", symbolPrefix: "SEP", envPrefix: "SEPOLIA", chainSlug: "ethereum-sepolia" },
+  base_sepolia: { label: "Base Sepolia", symbolPrefix: "BSEP", envPrefix: "BASE_SEPOLIA", chainSlug: "base-sepolia" },
+  arbitrum_sepolia: { label: "Arbitrum Sepolia", symbolPrefix: "ASEP", envPrefix: "ARBITRUM_SEPOLIA", chainSlug: "arbitrum-sepolia" },
+};
+
+const MONTHS: Record<string, number> = {
+  October: 2025,
+  November: 2025,
+  December: 2025,
+  January: 2026,
+  February: 2026,
+};
+
+async function main() {
+  const network = NETWORKS[hre.network.name];
+  if (!network) {
+    throw new Error(
+      `Unsupported network: ${hre.network.name}. Use ${Object.keys(NETWORKS).join(", ")}`
+    );
+  }
+
+  const deployAll = process.env.DEPLOY_ALL === "true";
+  const months = deployAll ? Object.keys(MONTHS) : [process.env.DEPLOY_MONTH || "February"];
+  const addresses: Record<string, string> = {};
+
+  for (const month of months) {
+    addresses[month] = await deployMonth(network, month);
+    console.log("---\n");
+  }
+
+  console.log("\n=== DEPLOYMENT SUMMARY ===\n");
+  console.log("Add these to your .env.local:\n");
+  for (const [month, address] of Object.entries(addresses)) {
+    console.log(`NEXT_PUBLIC_${network.envPrefix}_${month.toUpperCase()}_ADDRESS=${address}`);
+  }
+}
+
+async function deployMonth(network: NetworkConfig, month: string): Promise<string> {
+  const year = MONTHS[month];
+  if (!year) {
+    throw new Error(`Invalid month: ${month}. Must be ${Object.keys(MONTHS).join(", ")}`);
+  }
+
+  const name = `${network.label} ${month} ${year} Activity`;
+  const symbol = `${network.symbolPrefix}${month.slice(0, 3).toUpperCase()}`;
+  const maxSupply = parseInt(process.env.MAX_SUPPLY || "100000");
+  const defaultTokenURI =
+    process.env[`NEXT_PUBLIC_${network.envPrefix}_${month.toUpperCase()}_METADATA_URI`] || "";
+
+  console.log(`Deploying ActivityNFT for ${network.label} ${month}...`);
+  console.log(`  Name: ${name}`);
+  console.log(`  Symbol: ${symbol}`);
+  console.log(`  Max Supply: ${maxSupply}`);
+  console.log(`  Default URI: ${defaultTokenURI || "(not set)"}`);
+
+  const ActivityNFT = await ethers.getContractFactory("ActivityNFT");
+  const args = [name, symbol, maxSupply, defaultTokenURI] as const;
+  const activityNFT = await ActivityNFT.deploy(...args);
+
+  await activityNFT.waitForDeployment();
+  const address = await activityNFT.getAddress();
+
+  await configureTiers(activityNFT, network.chainSlug, month);
+
+  console.log(`\nActivityNFT (${network.label} ${month}) deployed to: ${address}`);
+
+  if (process.env.ETHERSCAN_API_KEY) {
+    // Etherscan needs the bytecode indexed before it accepts a verification
+    await activityNFT.deploymentTransaction()?.wait(5);
+    await hre.run("verify:verify", { address, constructorArguments: [...args] });
+  }
+
+  return address;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
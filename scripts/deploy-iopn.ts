@@ -1,4 +1,5 @@
 import hre from "hardhat";
+import { configureTiers } from "./tiers";
 
 const { ethers } = hre;
 
@@ -78,6 +79,8 @@ async function deployMonth(month: string): Promise<string> {
       await activityNFT.waitForDeployment();
       const address = await activityNFT.getAddress();
 
+      await configureTiers(activityNFT, "iopn-testnet", month);
+
       console.log(`\nActivityNFT (IOPN ${month}) deployed to: ${address}`);
       console.log(`\nUpdate your .env.local with:`);
       console.log(`NEXT_PUBLIC_IOPN_${month.toUpperCase()}_ADDRESS=${address}`);
@@ -0,0 +1,76 @@
+import hre from "hardhat";
+import fs from "fs";
+import path from "path";
+import { getMonthConfigsForChain } from "../src/lib/contracts";
+
+const { ethers } = hre;
+
+/**
+ * Deploy one ActivityNFT per configured month to a local Hardhat node and
+ * write the addresses where `next dev` picks them up
+ *
+ * Usage:
+ *   npx hardhat node
+ *   npm run deploy:localhost
+ *
+ * Addresses go to .env.development.local as NEXT_PUBLIC_LOCALHOST_<MONTH>_ADDRESS,
+ * keeping any other variables in the file. A fresh node deploys to the same
+ * addresses, so this only needs rerunning after the node restarts.
+ */
+
+const ENV_FILE = path.join(__dirname, "..", ".env.development.local");
+
+async function main() {
+  if (hre.network.name !== "localhost") {
+    throw new Error(`Unsupported network: ${hre.network.name}. Use localhost`);
+  }
+
+  const [deployer] = await ethers.getSigners();
+  const maxSupply = parseInt(process.env.MAX_SUPPLY || "100000");
+  const ActivityNFT = await ethers.getContractFactory("ActivityNFT");
+  const addresses: Record<string, string> = {};
+
+  for (const config of getMonthConfigsForChain("localhost")) {
+    const name = `Localhost ${config.name} ${config.year} Activity`;
+    const symbol = `LOC${config.name.slice(0, 3).toUpperCase()}`;
+    const activityNFT = await ActivityNFT.deploy(name, symbol, maxSupply, config.metadataURI);
+    await activityNFT.waitForDeployment();
+
+    const address = await activityNFT.getAddress();
+    addresses[`NEXT_PUBLIC_LOCALHOST_${config.name.toUpperCase()}_ADDRESS`] = address;
+    console.log(`ActivityNFT (${config.name}) deployed to: ${address}`);
+  }
+
+  writeEnv(addresses);
+  console.log(`\nWrote ${Object.keys(addresses).length} addresses to ${path.basename(ENV_FILE)}`);
+  console.log("Restart `npm run dev` to pick them up.");
+  // Deploying already made the deployer active in every month
+  console.log(`Deployer ${deployer.address} is eligible right away; import its key from the node's output.`);
+}
+
+// Replace the variables' lines, or append them, leaving the rest untouched
+function writeEnv(values: Record<string, string>) {
+  const lines = fs.existsSync(ENV_FILE) ? fs.readFileSync(ENV_FILE, "utf8").split("\n") : [];
+  const pending = new Map(Object.entries(values));
+
+  const updated = lines.map((line) => {
+    const name = line.split("=")[0].trim();
+    if (!pending.has(name)) return line;
+    const value = pending.get(name);
+    pending.delete(name);
+    return `${name}=${value}`;
+  });
+  while (updated.length > 0 && updated[updated.length - 1] === "") {
+    updated.pop();
+  }
+  for (const [name, value] of pending) {
+    updated.push(`${name}=${value}`);
+  }
+
+  fs.writeFileSync(ENV_FILE, `${updated.join("\n")}\n`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,4 +1,5 @@
 import hre from "hardhat";
+import { configureTiers } from "./tiers";
 
 const { ethers } = hre;
 
@@ -28,6 +29,8 @@ async function main() {
   await activityNFT.waitForDeployment();
   const address = await activityNFT.getAddress();
 
+  await configureTiers(activityNFT, "pharos-atlantic", MONTH);
+
   console.log(`\nActivityNFT (${MONTH}) deployed to: ${address}`);
   console.log(`\nUpdate your .env.local with:`);
   console.log(`NEXT_PUBLIC_ACTIVITY_NFT_${MONTH.toUpperCase()}_ADDRESS=${address}`);
@@ -0,0 +1,109 @@
+import { type ExplorerFixture, type FixtureTransaction } from "./server";
+
+// Deterministic explorer data: the same seed always yields the same wallets
+// and transactions, so local runs and tests can assert on exact results.
+
+export interface SeededFixtureOptions {
+  seed: number;
+  wallets: number;               // Wallets sending transactions
+  idleWallets: number;           // Wallets that never appear in a transaction
+  transactions: number;
+  startBlock: number;            // First block transactions may land in
+  latestBlock: number;
+  genesisTimestamp: number;      // Unix seconds of block 0
+  blockTime: number;             // Seconds per block
+}
+
+export interface SeededFixture {
+  fixture: ExplorerFixture;
+  wallets: string[];
+  idleWallets: string[];
+  contracts: string[];
+}
+
+export const DEFAULT_FIXTURE_OPTIONS: SeededFixtureOptions = {
+  seed: 1,
+  wallets: 8,
+  idleWallets: 2,
+  transactions: 400,
+  startBlock: 1000,
+  latestBlock: 100_000,
+  genesisTimestamp: 1_700_000_000,
+  blockTime: 2,
+};
+
+// Share of transactions that call a contract, revert, or create a contract
+const CONTRACT_CALL_RATE = 0.4;
+const REVERT_RATE = 0.05;
+const CREATION_RATE = 0.01;
+const CONTRACTS = 3;
+
+// mulberry32: small, fast and good enough for fixture data
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomHex(random: () => number, bytes: number): string {
+  let hex = "0x";
+  for (let i = 0; i < bytes; i++) {
+    hex += Math.floor(random() * 256).toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+export function createSeededFixture(overrides: Partial<SeededFixtureOptions> = {}): SeededFixture {
+  const options = { ...DEFAULT_FIXTURE_OPTIONS, ...overrides };
+  const random = createRandom(options.seed);
+
+  const wallets = Array.from({ length: options.wallets }, () => randomHex(random, 20));
+  const idleWallets = Array.from({ length: options.idleWallets }, () => randomHex(random, 20));
+  const contracts = Array.from({ length: CONTRACTS }, () => randomHex(random, 20));
+
+  const span = options.latestBlock - options.startBlock + 1;
+  const transactions: FixtureTransaction[] = Array.from({ length: options.transactions }, () => {
+    const from = pick(random, wallets);
+    const roll = random();
+    const creation = roll < CREATION_RATE;
+    const contractCall = !creation && roll < CREATION_RATE + CONTRACT_CALL_RATE;
+    const to = creation
+      ? ""
+      : contractCall
+        ? pick(random, contracts)
+        : pick(random, wallets.filter((wallet) => wallet !== from));
+
+    return {
+      hash: randomHex(random, 32),
+      blockNumber: options.startBlock + Math.floor(random() * span),
+      from,
+      to,
+      value: contractCall || creation ? "0" : String(Math.floor(random() * 1e6) * 1e9),
+      input: creation ? "0x6080604052" : contractCall ? `0xa9059cbb${randomHex(random, 64).slice(2)}` : "0x",
+      isError: random() < REVERT_RATE,
+    };
+  });
+  // Stable order within a block keeps REST cursors deterministic
+  transactions.sort((a, b) => a.blockNumber - b.blockNumber);
+
+  return {
+    fixture: {
+      genesisTimestamp: options.genesisTimestamp,
+      blockTime: options.blockTime,
+      latestBlock: options.latestBlock,
+      transactions,
+    },
+    wallets,
+    idleWallets,
+    contracts,
+  };
+}
@@ -0,0 +1,95 @@
+import { CHAINS } from "../../src/lib/chains";
+import { getMonthConfigsForChain } from "../../src/lib/contracts";
+import { getMonthTimeRange } from "../../src/lib/activityCheck/blockRange";
+import { type ChainId } from "../../src/types";
+import { createSeededFixture } from "./fixture";
+import { startExplorerServer, type FaultMode } from "./server";
+
+/**
+ * Serve a seeded mock explorer for local development
+ *
+ * Usage:
+ *   npm run mock:explorer
+ *   PHAROS_EXPLORER_API_URL=http://127.0.0.1:4010/api npm run dev
+ *
+ * Transactions span the blocks of the chain's configured months, and the block
+ * clock maps the first and last month boundary onto them, so month checks find
+ * the generated activity. Options (environment):
+ *   MOCK_EXPLORER_CHAIN     Chain to imitate, default pharos-atlantic
+ *   MOCK_EXPLORER_PORT      Default 4010
+ *   MOCK_EXPLORER_SEED      Fixture seed, default 1
+ *   MOCK_EXPLORER_FAULT     rate_limit, malformed, slow or stalled
+ *   MOCK_EXPLORER_FAULT_RATE  Share of requests affected by the fault, default 0.2
+ *   MOCK_EXPLORER_DELAY_MS  Delay of slow and stalled responses, default 2000
+ */
+
+// The variable pointing each chain's explorer API at the mock, see CHAINS
+const URL_ENV: Partial<Record<ChainId, string>> = {
+  "pharos-atlantic": "PHAROS_EXPLORER_API_URL",
+  "ethereum-sepolia": "ETHERSCAN_V2_API_URL",
+  "base-sepolia": "ETHERSCAN_V2_API_URL",
+  "arbitrum-sepolia": "ETHERSCAN_V2_API_URL",
+  "iopn-testnet": "IOPN_EXPLORER_API_URL",
+};
+
+const FAULT_MODES: FaultMode[] = ["rate_limit", "malformed", "slow", "stalled"];
+
+async function main() {
+  const chainSlug = (process.env.MOCK_EXPLORER_CHAIN || "pharos-atlantic") as ChainId;
+  const chain = CHAINS[chainSlug];
+  if (!chain || !URL_ENV[chainSlug]) {
+    throw new Error(`No explorer to mock for ${chainSlug}. Use ${Object.keys(URL_ENV).join(", ")}`);
+  }
+
+  // Derive a linear block clock from the first and last configured month
+  const months = getMonthConfigsForChain(chainSlug);
+  const first = months[0];
+  const last = months[months.length - 1];
+  const blockTime =
+    (getMonthTimeRange(last).endTime - getMonthTimeRange(first).startTime) / (last.endBlock - first.startBlock);
+  const seed = parseInt(process.env.MOCK_EXPLORER_SEED || "1");
+
+  const { fixture, wallets, idleWallets } = createSeededFixture({
+    seed,
+    startBlock: first.startBlock,
+    latestBlock: last.endBlock,
+    genesisTimestamp: getMonthTimeRange(first).startTime - first.startBlock * blockTime,
+    blockTime,
+  });
+
+  const server = await startExplorerServer(fixture, chain.activityCheck.dialect, {
+    port: parseInt(process.env.MOCK_EXPLORER_PORT || "4010"),
+    seed,
+  });
+
+  const mode = process.env.MOCK_EXPLORER_FAULT as FaultMode | undefined;
+  if (mode) {
+    if (!FAULT_MODES.includes(mode)) {
+      throw new Error(`Invalid fault: ${mode}. Must be ${FAULT_MODES.join(", ")}`);
+    }
+    server.setFault({
+      mode,
+      probability: parseFloat(process.env.MOCK_EXPLORER_FAULT_RATE || "0.2"),
+      delayMs: parseInt(process.env.MOCK_EXPLORER_DELAY_MS || "2000"),
+    });
+  }
+
+  console.log(`Mock ${chain.name} explorer (${chain.activityCheck.dialect}, seed ${seed}) at ${server.url}`);
+  if (mode) console.log(`Fault: ${mode}`);
+  console.log(`\nStart the app with:\n\n${URL_ENV[chainSlug]}=${server.url} npm run dev\n`);
+
+  console.log("Wallets with transactions:");
+  for (const wallet of wallets) {
+    const count = fixture.transactions.filter((tx) => tx.from === wallet).length;
+    console.log(`  ${wallet}  ${count} sent`);
+  }
+  console.log("Wallets without transactions:");
+  for (const wallet of idleWallets) {
+    console.log(`  ${wallet}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
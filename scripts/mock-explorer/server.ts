@@ -0,0 +1,269 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { type AddressInfo } from "net";
+import { type ExplorerDialect } from "../../src/types";
+import { createRandom } from "./fixture";
+
+// Local stand-ins for chain explorers. startExplorerServer serves one fixture
+// in any dialect: the Etherscan-compatible /api (txlist, getblocknobytime) and,
+// for blockscout-v2, the Blockscout REST listing under /api/v2.
+// startEtherscanV2Server speaks Etherscan's multichain V2 API at /v2/api,
+// serving a fixture per chainid behind an API key.
+// Both can be told to misbehave with setFault, see Fault.
+
+export interface FixtureTransaction {
+  hash: string;
+  blockNumber: number;
+  from: string;
+  to: string;                    // '' for contract creations
+  value: string;
+  input: string;
+  isError: boolean;
+}
+
+export interface ExplorerFixture {
+  genesisTimestamp: number;      // Unix seconds of block 0
+  blockTime: number;             // Seconds per block
+  latestBlock: number;
+  transactions: FixtureTransaction[];
+}
+
+// Failure modes of real explorers:
+// - rate_limit: HTTP 429 with Retry-After, as explorers answer bursts
+// - malformed: a truncated JSON body, as from a proxy cutting the response
+// - slow: the normal response after delayMs
+// - stalled: the headers right away, but the body only after delayMs
+export type FaultMode = "rate_limit" | "malformed" | "slow" | "stalled";
+
+export interface Fault {
+  mode: FaultMode;
+  times?: number;                // Affected requests before the fault clears; every request when unset
+  probability?: number;          // Share of requests affected, drawn from a seeded generator
+  delayMs?: number;              // For slow and stalled, default 2000
+}
+
+export interface ExplorerServer {
+  url: string;                   // API endpoint, e.g. http://127.0.0.1:1234/api
+  requests: URL[];
+  setFault(fault: Fault | null): void;
+  close(): Promise<void>;
+}
+
+export interface ServerOptions {
+  port?: number;                 // Random free port when unset
+  seed?: number;                 // For Fault.probability
+}
+
+// Blockscout pages the REST API 50 rows at a time
+const REST_PAGE_SIZE = 50;
+const DEFAULT_SLOW_DELAY_MS = 2000;
+
+function timestampOf(fixture: ExplorerFixture, block: number): number {
+  return fixture.genesisTimestamp + block * fixture.blockTime;
+}
+
+// Position within its block, part of the REST API cursor
+function indexOf(fixture: ExplorerFixture, tx: FixtureTransaction): number {
+  return fixture.transactions.filter((t) => t.blockNumber === tx.blockNumber).indexOf(tx);
+}
+
+function involves(tx: FixtureTransaction, address: string): boolean {
+  const target = address.toLowerCase();
+  return tx.from.toLowerCase() === target || tx.to.toLowerCase() === target;
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  // A stalled response has sent its headers already
+  if (!res.headersSent) res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function txList(fixture: ExplorerFixture, query: URLSearchParams) {
+  const startBlock = Number(query.get("startblock") ?? 0);
+  const endBlock = Number(query.get("endblock") ?? fixture.latestBlock);
+  const page = Number(query.get("page") ?? 1);
+  const offset = Number(query.get("offset") ?? 10000);
+
+  const rows = fixture.transactions
+    .filter((tx) => involves(tx, query.get("address") ?? ""))
+    .filter((tx) => tx.blockNumber >= startBlock && tx.blockNumber <= endBlock)
+    .sort((a, b) => a.blockNumber - b.blockNumber)
+    .slice((page - 1) * offset, page * offset)
+    .map((tx) => ({
+      blockNumber: String(tx.blockNumber),
+      timeStamp: String(timestampOf(fixture, tx.blockNumber)),
+      hash: tx.hash,
+      from: tx.from.toLowerCase(),
+      to: tx.to.toLowerCase(),
+      value: tx.value,
+      input: tx.input,
+      isError: tx.isError ? "1" : "0",
+      txreceipt_status: tx.isError ? "0" : "1",
+    }));
+
+  return rows.length > 0
+    ? { status: "1", message: "OK", result: rows }
+    : { status: "0", message: "No transactions found", result: [] };
+}
+
+function blockByTime(fixture: ExplorerFixture, dialect: ExplorerDialect, query: URLSearchParams) {
+  const elapsed = Number(query.get("timestamp")) - fixture.genesisTimestamp;
+  const exact = elapsed / fixture.blockTime;
+  const block = Math.min(
+    Math.max(query.get("closest") === "after" ? Math.ceil(exact) : Math.floor(exact), 0),
+    fixture.latestBlock
+  );
+  return {
+    status: "1",
+    message: "OK",
+    result: dialect === "etherscan" ? String(block) : { blockNumber: String(block) },
+  };
+}
+
+// Newest first; the cursor (block_number, index) excludes itself and everything newer
+function restTransactions(fixture: ExplorerFixture, address: string, query: URLSearchParams) {
+  const cursorBlock = query.has("block_number") ? Number(query.get("block_number")) : Infinity;
+  const cursorIndex = Number(query.get("index") ?? 0);
+  const itemsCount = Number(query.get("items_count") ?? 0);
+
+  const rows = fixture.transactions
+    .filter((tx) => involves(tx, address))
+    .map((tx) => ({ tx, index: indexOf(fixture, tx) }))
+    .filter(
+      ({ tx, index }) =>
+        tx.blockNumber < cursorBlock || (tx.blockNumber === cursorBlock && index < cursorIndex)
+    )
+    .sort((a, b) => b.tx.blockNumber - a.tx.blockNumber || b.index - a.index);
+  const page = rows.slice(0, REST_PAGE_SIZE);
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(({ tx }) => ({
+      hash: tx.hash,
+      block_number: tx.blockNumber,
+      timestamp: new Date(timestampOf(fixture, tx.blockNumber) * 1000).toISOString(),
+      from: { hash: tx.from },
+      to: tx.to ? { hash: tx.to } : null,
+      value: tx.value,
+      raw_input: tx.input,
+      status: tx.isError ? "error" : "ok",
+    })),
+    next_page_params:
+      rows.length > REST_PAGE_SIZE
+        ? { block_number: last.tx.blockNumber, index: last.index, items_count: itemsCount + REST_PAGE_SIZE }
+        : null,
+  };
+}
+
+function notOk(result: string) {
+  return { status: "0", message: "NOTOK", result };
+}
+
+function compatApi(fixture: ExplorerFixture, dialect: ExplorerDialect, query: URLSearchParams) {
+  if (query.get("module") === "account" && query.get("action") === "txlist") {
+    return txList(fixture, query);
+  }
+  if (query.get("module") === "block" && query.get("action") === "getblocknobytime") {
+    return blockByTime(fixture, dialect, query);
+  }
+  return notOk("Unknown action");
+}
+
+async function listen(
+  path: string,
+  handle: (url: URL, res: ServerResponse) => void,
+  options: ServerOptions = {}
+): Promise<ExplorerServer> {
+  const requests: URL[] = [];
+  const random = createRandom(options.seed ?? 1);
+  let fault: Fault | null = null;
+
+  // The fault to apply to this request, if any, counting down Fault.times
+  function takeFault(): Fault | null {
+    if (!fault) return null;
+    if (fault.probability !== undefined && random() >= fault.probability) return null;
+    const active = fault;
+    if (active.times !== undefined) {
+      active.times -= 1;
+      if (active.times <= 0) fault = null;
+    }
+    return active;
+  }
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    requests.push(url);
+
+    const active = takeFault();
+    if (active?.mode === "rate_limit") {
+      res.writeHead(429, { "Content-Type": "application/json", "Retry-After": "1" });
+      res.end(JSON.stringify(notOk("Max rate limit reached")));
+      return;
+    }
+    if (active?.mode === "malformed") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end('{"status":"1","message":"OK","result":[{"blockNumber":');
+      return;
+    }
+    if (active?.mode === "slow") {
+      await new Promise((resolve) => setTimeout(resolve, active.delayMs ?? DEFAULT_SLOW_DELAY_MS));
+      if (res.destroyed) return;
+    }
+    if (active?.mode === "stalled") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.flushHeaders();
+      await new Promise((resolve) => setTimeout(resolve, active.delayMs ?? DEFAULT_SLOW_DELAY_MS));
+      if (res.destroyed) return;
+    }
+    handle(url, res);
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}${path}`,
+    requests,
+    setFault: (next) => {
+      fault = next && { ...next };
+    },
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+export function startExplorerServer(
+  fixture: ExplorerFixture,
+  dialect: ExplorerDialect,
+  options?: ServerOptions
+): Promise<ExplorerServer> {
+  return listen("/api", (url, res) => {
+    const rest = url.pathname.match(/^\/api\/v2\/addresses\/(0x[0-9a-fA-F]{40})\/transactions$/);
+    if (rest && dialect === "blockscout-v2") {
+      send(res, 200, restTransactions(fixture, rest[1], url.searchParams));
+    } else if (url.pathname === "/api") {
+      send(res, 200, compatApi(fixture, dialect, url.searchParams));
+    } else {
+      send(res, 404, { message: "Not found" });
+    }
+  }, options);
+}
+
+// Etherscan V2 answers every problem with HTTP 200 and a NOTOK body
+export function startEtherscanV2Server(
+  fixtures: Record<number, ExplorerFixture>,
+  apiKey: string,
+  options?: ServerOptions
+): Promise<ExplorerServer> {
+  return listen("/v2/api", (url, res) => {
+    const query = url.searchParams;
+    const fixture = fixtures[Number(query.get("chainid"))];
+    if (url.pathname !== "/v2/api") {
+      send(res, 404, { message: "Not found" });
+    } else if (query.get("apikey") !== apiKey) {
+      send(res, 200, notOk("Invalid API Key (#err2)|x1"));
+    } else if (!fixture) {
+      send(res, 200, notOk("Missing or unsupported chainid parameter (required for v2 api)"));
+    } else {
+      send(res, 200, compatApi(fixture, "etherscan", query));
+    }
+  }, options);
+}
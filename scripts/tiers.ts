@@ -0,0 +1,25 @@
+import { getMonthConfigsForChain } from "../src/lib/contracts";
+import { type ChainId } from "../src/types";
+import { ActivityNFT } from "../typechain-types";
+
+/**
+ * Configure a freshly deployed contract's activity tiers from the month's
+ * config in src/lib/contracts.ts, so the URIs the contract mints always match
+ * the tiers the app scores against. Tiered mints are approved by the app's
+ * server, whose signer address is read from TIER_SIGNER_ADDRESS.
+ */
+export async function configureTiers(activityNFT: ActivityNFT, chainSlug: ChainId, month: string) {
+  const tiers = getMonthConfigsForChain(chainSlug).find((config) => config.name === month)?.tiers ?? [];
+  if (tiers.length === 0) return;
+
+  await (await activityNFT.setTierURIs(tiers.map((tier) => tier.metadataURI))).wait();
+  console.log(`  Tier URIs: ${tiers.map((tier) => tier.name).join(", ")}`);
+
+  const signer = process.env.TIER_SIGNER_ADDRESS;
+  if (!signer) {
+    console.warn("  TIER_SIGNER_ADDRESS is not set: tiered minting stays disabled until setTierSigner is called");
+    return;
+  }
+  await (await activityNFT.setTierSigner(signer)).wait();
+  console.log(`  Tier signer: ${signer}`);
+}
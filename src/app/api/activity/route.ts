@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAddress, isAddress } from 'viem';
+import { CHAINS, isChainActive, isValidChainSlug } from '@/lib/chains';
+import { getMonthConfigsForChain } from '@/lib/contracts';
+import { checkMonthOnServer } from '@/lib/activityCheck/server';
+import { toErrorInfo } from '@/lib/activityCheck/errors';
+import {
+  createMemoryStore,
+  createSlidingWindowLimiter,
+  getClientIp,
+  rateLimitHeaders,
+} from '@/lib/proxy/rateLimit';
+import { type ActivityOutcome, type Month } from '@/types';
+
+const NDJSON = 'application/x-ndjson';
+
+// Every check can fan out into many explorer calls on the server's keys, so
+// each client gets a budget of checks, and a smaller one for skipping the cache.
+// A refresh re-checks every month of a chain, so that one counts in refreshes.
+const RATE_LIMIT_WINDOW_MS = 60_000;
+const CHECKS_PER_MINUTE = 30;
+const FRESH_REFRESHES_PER_MINUTE = 3;
+// Proxies in front of the app that append to X-Forwarded-For (1 on most hosts)
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+const limiter = createSlidingWindowLimiter(createMemoryStore());
+
+function errorResponse(status: number, code: string, message: string, headers?: HeadersInit) {
+  return NextResponse.json({ error: { code, message } }, { status, headers });
+}
+
+// GET /api/activity?chain=&address=&month=[&fresh=1]
+// Runs the month's eligibility check on the server. Responds with
+// { chain, address, month, outcome }; clients sending Accept: application/x-ndjson
+// get the check's progress as { type: 'progress', checked, total } lines first,
+// then { type: 'result', ... } or { type: 'error', error }. fresh=1 is refused
+// with 429 once the client has used up its budget of refreshes for the chain.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const chainSlug = searchParams.get('chain') ?? '';
+  const rawAddress = searchParams.get('address') ?? '';
+  const month = searchParams.get('month') as Month;
+
+  const ip = getClientIp(request.headers, TRUSTED_PROXY_COUNT);
+  const limit = await limiter.check(ip, CHECKS_PER_MINUTE, RATE_LIMIT_WINDOW_MS);
+  const limitHeaders = rateLimitHeaders(limit);
+  if (!limit.allowed) {
+    return errorResponse(429, 'rate_limited', 'Rate limit exceeded, try again later', limitHeaders);
+  }
+
+  if (!isValidChainSlug(chainSlug) || !isChainActive(chainSlug)) {
+    return errorResponse(400, 'invalid_chain', `Unknown or inactive chain: ${chainSlug}`, limitHeaders);
+  }
+  if (!isAddress(rawAddress, { strict: false })) {
+    return errorResponse(400, 'invalid_address', 'Address must be a 20-byte hex address', limitHeaders);
+  }
+  const monthConfigs = getMonthConfigsForChain(chainSlug);
+  if (!monthConfigs.some((config) => config.name === month)) {
+    return errorResponse(400, 'invalid_month', `No ${month} collection on ${CHAINS[chainSlug].name}`, limitHeaders);
+  }
+
+  const fresh = searchParams.get('fresh') === '1';
+  if (fresh) {
+    const freshLimit = FRESH_REFRESHES_PER_MINUTE * monthConfigs.length;
+    const freshResult = await limiter.check(`fresh:${chainSlug}:${ip}`, freshLimit, RATE_LIMIT_WINDOW_MS);
+    if (!freshResult.allowed) {
+      const message = 'Too many refreshes, try again later';
+      return errorResponse(429, 'rate_limited', message, rateLimitHeaders(freshResult));
+    }
+  }
+  const address = getAddress(rawAddress);
+  const body = (outcome: ActivityOutcome) => ({ chain: chainSlug, address, month, outcome });
+
+  const run = (onProgress?: (checked: number, total: number) => void) =>
+    checkMonthOnServer(address, chainSlug, month, { fresh, onProgress, signal: request.signal });
+
+  if (!request.headers.get('accept')?.includes(NDJSON)) {
+    try {
+      return NextResponse.json(body(await run()), { headers: limitHeaders });
+    } catch (error) {
+      return NextResponse.json({ error: toErrorInfo(error) }, { status: 500, headers: limitHeaders });
+    }
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (line: object) => controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+      try {
+        const outcome = await run((checked, total) => send({ type: 'progress', checked, total }));
+        send({ type: 'result', ...body(outcome) });
+      } catch (error) {
+        // The client went away, there is no one left to tell
+        if (!request.signal.aborted) {
+          send({ type: 'error', error: toErrorInfo(error) });
+        }
+      }
+      try {
+        controller.close();
+      } catch {
+        // Already cancelled by the client
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...limitHeaders, 'Content-Type': NDJSON, 'Cache-Control': 'no-store' },
+  });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isChainActive, isValidChainSlug } from '@/lib/chains';
+import { getHealthReport, getReportMaxAge } from '@/lib/health';
+
+// GET /api/health[?chain=]
+// Reports { status, checkedAt, chains } for every active chain, or only the
+// requested one. Probes run at most every few seconds, responses reuse them.
+export async function GET(request: NextRequest) {
+  const chainSlug = request.nextUrl.searchParams.get('chain');
+  if (chainSlug !== null && (!isValidChainSlug(chainSlug) || !isChainActive(chainSlug))) {
+    return NextResponse.json(
+      { error: { code: 'invalid_chain', message: `Unknown or inactive chain: ${chainSlug}` } },
+      { status: 400 }
+    );
+  }
+
+  const report = await getHealthReport();
+  const chains = chainSlug === null ? report.chains : report.chains.filter((chain) => chain.chainSlug === chainSlug);
+  return NextResponse.json(
+    { ...report, status: chainSlug === null ? report.status : chains[0].status, chains },
+    { headers: { 'Cache-Control': `public, max-age=${getReportMaxAge()}` } }
+  );
+}
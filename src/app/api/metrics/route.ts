@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderMetrics } from '@/lib/metrics';
+
+// Optional bearer token scrapers must send; without it the endpoint is open
+const METRICS_TOKEN = process.env.METRICS_TOKEN;
+
+// GET /api/metrics
+// This instance's counters and histograms in Prometheus text format
+export async function GET(request: NextRequest) {
+  if (METRICS_TOKEN && request.headers.get('authorization') !== `Bearer ${METRICS_TOKEN}`) {
+    return NextResponse.json({ error: { code: 'unauthorized', message: 'Missing or invalid token' } }, { status: 401 });
+  }
+
+  return new Response(renderMetrics(), {
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAddress, isAddress } from 'viem';
+import { CHAINS, isChainActive, isValidChainSlug } from '@/lib/chains';
+import { getMonthConfig } from '@/lib/contracts';
+import { checkMonthOnServer } from '@/lib/activityCheck/server';
+import { toErrorInfo } from '@/lib/activityCheck/errors';
+import {
+  createMemoryStore,
+  createSlidingWindowLimiter,
+  getClientIp,
+  rateLimitHeaders,
+} from '@/lib/proxy/rateLimit';
+import { signTierApproval } from '@/lib/tierApproval';
+import { type Month } from '@/types';
+
+// Approvals reuse /api/activity's cached outcomes, but a miss runs a full check
+const RATE_LIMIT_WINDOW_MS = 60_000;
+const APPROVALS_PER_MINUTE = 10;
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+const limiter = createSlidingWindowLimiter(createMemoryStore());
+
+function errorResponse(status: number, code: string, message: string, headers?: HeadersInit) {
+  return NextResponse.json({ error: { code, message } }, { status, headers });
+}
+
+// GET /api/mint-signature?chain=&address=&month=
+// Scores the month's activity on the server and responds with { tier, signature },
+// the tier signer's approval for address to call mintWithTier(tier, signature).
+// Wallets below the lowest tier get 403 not_eligible; checks that could not
+// score the wallet get 503 and are worth retrying.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const chainSlug = searchParams.get('chain') ?? '';
+  const rawAddress = searchParams.get('address') ?? '';
+  const month = searchParams.get('month') as Month;
+
+  const ip = getClientIp(request.headers, TRUSTED_PROXY_COUNT);
+  const limit = await limiter.check(ip, APPROVALS_PER_MINUTE, RATE_LIMIT_WINDOW_MS);
+  const limitHeaders = rateLimitHeaders(limit);
+  if (!limit.allowed) {
+    return errorResponse(429, 'rate_limited', 'Rate limit exceeded, try again later', limitHeaders);
+  }
+
+  if (!isValidChainSlug(chainSlug) || !isChainActive(chainSlug)) {
+    return errorResponse(400, 'invalid_chain', `Unknown or inactive chain: ${chainSlug}`, limitHeaders);
+  }
+  if (!isAddress(rawAddress, { strict: false })) {
+    return errorResponse(400, 'invalid_address', 'Address must be a 20-byte hex address', limitHeaders);
+  }
+  const config = getMonthConfig(chainSlug, month);
+  if (!config?.tiers?.length || config.contractAddress === '0x') {
+    return errorResponse(400, 'invalid_month', `No tiered ${month} collection on ${CHAINS[chainSlug].name}`, limitHeaders);
+  }
+
+  const address = getAddress(rawAddress);
+  let tier: number | null;
+  try {
+    const outcome = await checkMonthOnServer(address, chainSlug, month, { signal: request.signal });
+    if (outcome.status === 'unknown') {
+      return NextResponse.json({ error: outcome.error }, { status: 503, headers: limitHeaders });
+    }
+    // Active but unscored: the explorer failed and the fallback counts no metrics
+    if (outcome.status === 'active' && outcome.score === null) {
+      const message = 'Activity could not be scored right now, try again later';
+      return errorResponse(503, 'score_unavailable', message, limitHeaders);
+    }
+    tier = outcome.status === 'active' ? (outcome.score?.tier ?? null) : null;
+  } catch (error) {
+    return NextResponse.json({ error: toErrorInfo(error) }, { status: 500, headers: limitHeaders });
+  }
+  if (tier === null) {
+    return errorResponse(403, 'not_eligible', `${address} has not reached a tier in ${month}`, limitHeaders);
+  }
+
+  const signature = await signTierApproval(CHAINS[chainSlug].id, config.contractAddress, address, tier);
+  if (!signature) {
+    return errorResponse(503, 'signing_unavailable', 'Tier approvals are not configured on this server', limitHeaders);
+  }
+  return NextResponse.json({ tier, signature }, { headers: limitHeaders });
+}
@@ -3,8 +3,9 @@ import Link from 'next/link';
 import { ConnectButton } from '@/components/ConnectButton';
 import { MintDashboard } from '@/components/MintDashboard';
 import { ChainSwitcher } from '@/components/ChainSwitcher';
+import { ChainHealthBanner } from '@/components/ChainHealthBanner';
 import { NetworkWarning } from '@/components/NetworkWarning';
-import { CHAINS, isValidChainSlug, isChainActive } from '@/lib/chains';
+import { CHAINS, getAllChains, isValidChainSlug, isChainActive } from '@/lib/chains';
 import type { ChainId } from '@/types';
 
 interface ChainPageProps {
@@ -12,8 +13,8 @@ interface ChainPageProps {
 }
 
 export async function generateStaticParams() {
-  return Object.keys(CHAINS).map((chainSlug) => ({
-    chainSlug,
+  return getAllChains().map((chain) => ({
+    chainSlug: chain.slug,
   }));
 }
 
@@ -34,7 +35,8 @@ export async function generateMetadata({ params }: ChainPageProps) {
 export default async function ChainPage({ params }: ChainPageProps) {
   const { chainSlug } = await params;
 
-  if (!isValidChainSlug(chainSlug)) {
+  // Development-only chains don't exist as far as production is concerned
+  if (!isValidChainSlug(chainSlug) || !getAllChains().some((chain) => chain.slug === chainSlug)) {
     notFound();
   }
 
@@ -73,6 +75,9 @@ export default async function ChainPage({ params }: ChainPageProps) {
         {/* Network Warning */}
         <NetworkWarning expectedChainSlug={chainSlug as ChainId} />
 
+        {/* Verification Health */}
+        <ChainHealthBanner chainSlug={chainSlug as ChainId} />
+
         {/* Hero Section */}
         <div className="text-center mb-12">
           <div className="flex items-center justify-center gap-3 mb-4">
@@ -142,14 +147,16 @@ export default async function ChainPage({ params }: ChainPageProps) {
               Activity Proof - {chain.name}
             </p>
             <div className="flex items-center gap-6">
-              <a
-                href={chain.explorerUrl}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-sm text-gray-400 hover:text-white transition-colors"
-              >
-                Explorer
-              </a>
+              {chain.explorerUrl && (
+                <a
+                  href={chain.explorerUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-gray-400 hover:text-white transition-colors"
+                >
+                  Explorer
+                </a>
+              )}
               <Link
                 href="/"
                 className="text-sm text-gray-400 hover:text-white transition-colors"
@@ -0,0 +1,126 @@
+import Link from 'next/link';
+import { ConnectButton } from '@/components/ConnectButton';
+import { CHAINS } from '@/lib/chains';
+import { getHealthReport } from '@/lib/health';
+import type { ChainHealth, HealthStatus } from '@/types';
+
+// Probes run on request (and are cached briefly by getHealthReport), never at build time
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: 'Status - Activity Proof',
+  description: 'Current health of activity verification on every supported chain',
+};
+
+const STATUS_STYLES: Record<HealthStatus, { label: string; className: string }> = {
+  ok: { label: 'Operational', className: 'bg-green-500/20 text-green-400' },
+  degraded: { label: 'Degraded', className: 'bg-orange-500/20 text-orange-400' },
+  down: { label: 'Down', className: 'bg-red-500/20 text-red-400' },
+};
+
+export default async function StatusPage() {
+  const report = await getHealthReport();
+
+  return (
+    <div className="min-h-screen">
+      {/* Header */}
+      <header className="border-b border-gray-800">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Link href="/" className="flex items-center gap-3">
+              <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-green-500 to-blue-600" />
+              <span className="text-lg font-semibold text-white">
+                Activity Proof
+              </span>
+            </Link>
+            <ConnectButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="flex items-center justify-between gap-4 flex-wrap mb-8">
+          <h1 className="text-4xl font-bold text-white">Status</h1>
+          <StatusBadge status={report.status} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {report.chains.map((health) => (
+            <ChainStatusCard key={health.chainSlug} health={health} />
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-500 mt-8">
+          Checked at {new Date(report.checkedAt).toUTCString()}
+        </p>
+      </main>
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: HealthStatus }) {
+  const { label, className } = STATUS_STYLES[status];
+  return <span className={`px-3 py-1 rounded-full text-sm font-medium ${className}`}>{label}</span>;
+}
+
+function ChainStatusCard({ health }: { health: ChainHealth }) {
+  const chain = CHAINS[health.chainSlug];
+  const percent = (rate: number | null) => (rate === null ? '-' : `${Math.round(rate * 100)}%`);
+  const latency = (ms: number | null) => (ms === null ? '' : ` (${ms} ms)`);
+
+  const rows: [string, string][] = [
+    [
+      'RPC',
+      health.rpc.reachable ? `Block ${health.rpc.latestBlock}${latency(health.rpc.latencyMs)}` : 'Unreachable',
+    ],
+    [
+      'Explorer API',
+      !chain.activityCheck.checkers.includes('explorer')
+        ? 'Not used'
+        : health.explorer.reachable
+          ? `Block ${health.explorer.indexedBlock}${latency(health.explorer.latencyMs)}`
+          : 'Unreachable',
+    ],
+    ['Indexing lag', health.explorer.lagBlocks === null ? '-' : `${health.explorer.lagBlocks} blocks`],
+    ['Explorer cache hit rate', percent(health.explorerRequests.cacheHitRate)],
+    ['Explorer requests throttled', percent(health.explorerRequests.throttledRate)],
+    [
+      'Server explorer queue',
+      health.upstreamQueue.pausedForMs > 0
+        ? `Paused ${Math.ceil(health.upstreamQueue.pausedForMs / 1000)}s`
+        : `${health.upstreamQueue.waiting} waiting`,
+    ],
+  ];
+  if (health.explorer.openCircuits.length > 0) {
+    rows.push(['Upstreams out of rotation', health.explorer.openCircuits.join(', ')]);
+  }
+
+  return (
+    <div className="p-6 bg-gray-800/50 rounded-xl border border-gray-700">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <Link href={`/chains/${chain.slug}`} className="flex items-center gap-3">
+          <div className={`w-8 h-8 rounded-lg bg-gradient-to-br ${chain.iconColor}`} />
+          <h2 className="text-lg font-semibold text-white">{chain.name}</h2>
+        </Link>
+        <StatusBadge status={health.status} />
+      </div>
+
+      <dl className="grid grid-cols-2 gap-y-2 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-gray-400">{label}</dt>
+            <dd className="text-white text-right">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {health.reasons.length > 0 && (
+        <ul className="mt-4 text-sm text-orange-300 list-disc list-inside">
+          {health.reasons.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import Link from 'next/link';
+import { useChainHealth } from '@/hooks/useChainHealth';
+import { getChainBySlug } from '@/lib/chains';
+import { type ChainId } from '@/types';
+
+interface ChainHealthBannerProps {
+  chainSlug: ChainId;
+}
+
+export function ChainHealthBanner({ chainSlug }: ChainHealthBannerProps) {
+  const health = useChainHealth(chainSlug);
+  const chain = getChainBySlug(chainSlug);
+
+  if (!health || health.status === 'ok' || !chain) {
+    return null;
+  }
+
+  const isDown = health.status === 'down';
+
+  return (
+    <div
+      className={`${
+        isDown ? 'bg-red-500/10 border-red-500/30' : 'bg-orange-500/10 border-orange-500/30'
+      } border rounded-lg px-4 py-3 mb-6`}
+    >
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div className="flex items-start gap-2">
+          <svg
+            className={`w-5 h-5 flex-shrink-0 ${isDown ? 'text-red-500' : 'text-orange-500'}`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+            />
+          </svg>
+          <div className={`text-sm ${isDown ? 'text-red-200' : 'text-orange-200'}`}>
+            <p>
+              {isDown
+                ? `Activity verification on ${chain.name} is currently unavailable.`
+                : `Activity verification on ${chain.name} may be slow or incomplete right now.`}
+            </p>
+            {health.reasons.length > 0 && (
+              <p className="text-xs opacity-75 mt-1">{health.reasons.join(' · ')}</p>
+            )}
+          </div>
+        </div>
+        <Link
+          href="/status"
+          className="text-sm text-gray-300 hover:text-white transition-colors whitespace-nowrap"
+        >
+          View status
+        </Link>
+      </div>
+    </div>
+  );
+}
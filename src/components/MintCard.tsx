@@ -6,6 +6,7 @@ import { type Month, type ActivityResult, type ChainId } from '@/types';
 import { useMint } from '@/hooks/useMint';
 import { getMonthConfigsForChain } from '@/lib/contracts';
 import { CHAINS } from '@/lib/chains';
+import { formatTimeLeft } from '@/lib/format';
 
 interface MintCardProps {
   chainSlug: ChainId;
@@ -29,7 +30,7 @@ export function MintCard({ chainSlug, month, activity, onCheckEligibility }: Min
     totalSupply,
     maxSupply,
     isLoadingSupply,
-  } = useMint(chainSlug, month);
+  } = useMint(chainSlug, month, activity?.score?.tier ?? null);
 
   const monthConfigs = getMonthConfigsForChain(chainSlug);
   const config = monthConfigs.find((c) => c.name === month);
@@ -97,6 +98,10 @@ export function MintCard({ chainSlug, month, activity, onCheckEligibility }: Min
             <span className="px-3 py-1 text-xs font-medium bg-blue-500 text-white rounded-full">
               Eligible
             </span>
+          ) : activity?.status === 'unknown' ? (
+            <span className="px-3 py-1 text-xs font-medium bg-yellow-500 text-black rounded-full">
+              Unverified
+            </span>
           ) : activity?.isChecked ? (
             <span className="px-3 py-1 text-xs font-medium bg-gray-600 text-gray-300 rounded-full">
               No Activity
@@ -111,6 +116,25 @@ export function MintCard({ chainSlug, month, activity, onCheckEligibility }: Min
           {month} {config?.year}
         </h3>
 
+        {/* Quest Requirements */}
+        {config?.quests && config.quests.length > 0 && (
+          <div className="mt-2">
+            <p className="text-xs text-gray-400">Complete any quest:</p>
+            <ul className="mt-1 space-y-0.5">
+              {config.quests.map((quest) => (
+                <li
+                  key={quest.id}
+                  className={`text-xs ${
+                    activity?.questId === quest.id ? 'text-green-400' : 'text-gray-300'
+                  }`}
+                >
+                  {activity?.questId === quest.id ? '✓' : '•'} {quest.label}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Supply Progress */}
         {!isLoadingSupply && totalSupply !== undefined && maxSupply !== undefined && (
           <div className="mt-2">
@@ -149,6 +173,20 @@ export function MintCard({ chainSlug, month, activity, onCheckEligibility }: Min
             Checking eligibility...
           </div>
         )}
+        {activity?.isLoading && activity.progress && activity.progress.total > 1 && (
+          <div className="mt-2">
+            <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className="h-full rounded-full bg-blue-500 transition-all"
+                style={{ width: `${(activity.progress.checked / activity.progress.total) * 100}%` }}
+              />
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {activity.progress.checked}/{activity.progress.total} chunks
+              {activity.progress.etaMs !== null && ` · ${formatTimeLeft(activity.progress.etaMs)}`}
+            </p>
+          </div>
+        )}
 
         {/* Not Checked State - Show check button */}
         {!isLoading && !activity?.isChecked && !hasMinted && onCheckEligibility && (
@@ -160,13 +198,94 @@ export function MintCard({ chainSlug, month, activity, onCheckEligibility }: Min
           </button>
         )}
 
+        {/* Activity Tier */}
+        {!isLoading && activity?.hasActivity && activity.score && config?.tiers && (
+          <div className="mt-2">
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span className="text-purple-300 font-medium">
+                {activity.score.tier !== null ? `${config.tiers[activity.score.tier].name} tier` : 'No tier yet'}
+              </span>
+              <span className="text-gray-400">{activity.score.score} pts</span>
+            </div>
+            {activity.score.nextTier !== null && activity.score.pointsToNextTier !== null && (
+              <>
+                <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-gradient-to-r from-purple-500 to-pink-500"
+                    style={{
+                      width: `${Math.min(
+                        (activity.score.score / config.tiers[activity.score.nextTier].minScore) * 100,
+                        100
+                      )}%`,
+                    }}
+                  />
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  {activity.score.pointsToNextTier} pts to {config.tiers[activity.score.nextTier].name}
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Eligibility Evidence */}
+        {!isLoading && activity?.hasActivity && activity.evidence && (
+          <p className="mt-2 text-xs text-gray-400">
+            Eligible because of tx{' '}
+            {chain.explorerUrl ? (
+              <a
+                href={`${chain.explorerUrl}/tx/${activity.evidence.hash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-blue-400 hover:underline"
+              >
+                {activity.evidence.hash.slice(0, 8)}…{activity.evidence.hash.slice(-4)}
+              </a>
+            ) : (
+              <span className="font-mono">
+                {activity.evidence.hash.slice(0, 8)}…{activity.evidence.hash.slice(-4)}
+              </span>
+            )}{' '}
+            on{' '}
+            {new Date(activity.evidence.timestamp * 1000).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              timeZone: 'UTC',
+            })}
+          </p>
+        )}
+
         {/* No Activity State */}
-        {!isLoading && activity?.isChecked && !activity?.hasActivity && !hasMinted && (
+        {!isLoading && activity?.status === 'inactive' && !hasMinted && (
           <p className="mt-2 text-sm text-gray-500">
-            No transactions found in {month}
+            {config?.quests?.length
+              ? `No completed quests found in ${month}`
+              : config?.criteria
+              ? `No activity meeting this month's requirements in ${month}`
+              : `No transactions found in ${month}`}
           </p>
         )}
 
+        {/* Unknown State - the check failed, not a negative result */}
+        {!isLoading && activity?.status === 'unknown' && !hasMinted && (
+          <div className="mt-3 p-2 bg-yellow-500/20 rounded-lg">
+            <p className="text-sm text-yellow-400">
+              Couldn&apos;t verify your activity in {month}. The explorer may be busy.
+            </p>
+            {activity.error && (
+              <p className="text-xs text-yellow-200/70 truncate">{activity.error}</p>
+            )}
+            {onCheckEligibility && (
+              <button
+                onClick={onCheckEligibility}
+                className="mt-1 text-xs text-gray-400 hover:text-white"
+              >
+                Try again
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Already Minted State */}
         {hasMinted && (
           <p className="mt-2 text-sm text-green-400">
@@ -211,14 +330,16 @@ export function MintCard({ chainSlug, month, activity, onCheckEligibility }: Min
         {isSuccess && txHash && (
           <div className="mt-3 p-2 bg-green-500/20 rounded-lg">
             <p className="text-sm text-green-400">Minted successfully!</p>
-            <a
-              href={`${chain.explorerUrl}/tx/${txHash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-xs text-blue-400 hover:underline"
-            >
-              View transaction
-            </a>
+            {chain.explorerUrl && (
+              <a
+                href={`${chain.explorerUrl}/tx/${txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-400 hover:underline"
+              >
+                View transaction
+              </a>
+            )}
           </div>
         )}
 
@@ -229,14 +350,16 @@ export function MintCard({ chainSlug, month, activity, onCheckEligibility }: Min
               Transaction sent but confirmation is taking longer than expected.
               {hasMinted ? ' It looks like the mint succeeded!' : ' Check the explorer to verify.'}
             </p>
-            <a
-              href={`${chain.explorerUrl}/tx/${txHash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-xs text-blue-400 hover:underline"
-            >
-              View on explorer
-            </a>
+            {chain.explorerUrl && (
+              <a
+                href={`${chain.explorerUrl}/tx/${txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-400 hover:underline"
+              >
+                View on explorer
+              </a>
+            )}
             <button
               onClick={reset}
               className="mt-1 block text-xs text-gray-400 hover:text-white"
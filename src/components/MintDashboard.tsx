@@ -6,6 +6,7 @@ import { useActivityCheck } from '@/hooks/useActivityCheck';
 import { MintCard } from './MintCard';
 import { getMonthConfigsForChain } from '@/lib/contracts';
 import { CHAINS } from '@/lib/chains';
+import { formatTimeLeft } from '@/lib/format';
 import { type Month, type ChainId } from '@/types';
 
 interface MintDashboardProps {
@@ -19,6 +20,13 @@ export function MintDashboard({ chainSlug }: MintDashboardProps) {
   const monthConfigs = getMonthConfigsForChain(chainSlug);
   const chain = CHAINS[chainSlug];
 
+  // Months are checked one at a time, the one reporting progress is in flight
+  const checkedCount = monthConfigs.filter((config) => !results[config.name].isLoading).length;
+  const currentMonth = monthConfigs.find(
+    (config) => results[config.name].isLoading && results[config.name].progress
+  )?.name;
+  const currentProgress = currentMonth ? results[currentMonth].progress : null;
+
   useEffect(() => {
     setMounted(true);
   }, []);
@@ -118,7 +126,24 @@ export function MintDashboard({ chainSlug }: MintDashboardProps) {
             <span className="text-blue-400">
               Checking your transaction history across all months...
             </span>
+            <span className="ml-auto text-sm text-blue-300">
+              {checkedCount}/{monthConfigs.length} months
+            </span>
           </div>
+          {currentMonth && currentProgress && (
+            <div className="mt-3">
+              <div className="w-full h-1.5 bg-blue-500/20 rounded-full overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-blue-500 transition-all"
+                  style={{ width: `${(currentProgress.checked / currentProgress.total) * 100}%` }}
+                />
+              </div>
+              <p className="mt-1 text-xs text-blue-300/80">
+                {currentMonth}: {currentProgress.checked}/{currentProgress.total} chunks
+                {currentProgress.etaMs !== null && ` · ${formatTimeLeft(currentProgress.etaMs)}`}
+              </p>
+            </div>
+          )}
         </div>
       )}
 
@@ -2,8 +2,8 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAccount } from 'wagmi';
-import { type Month, type ActivityResult, type ChainId } from '@/types';
-import { checkActivityForMonth, checkAllMonthsActivity, clearActivityCache } from '@/lib/activityCheck';
+import { type Month, type ActivityResult, type ActivityOutcome, type ChainId } from '@/types';
+import { fetchActivityForMonth } from '@/lib/activityCheck/api';
 import { getMonthConfigsForChain } from '@/lib/contracts';
 
 // Determine the current month name from the date
@@ -16,6 +16,43 @@ function getCurrentMonth(): Month | null {
   return monthNames.includes(name) ? name : null;
 }
 
+interface ProgressRun {
+  startedAt: number;
+  startChecked: number;
+  checked: number;
+}
+
+function emptyResult(month: Month, chainSlug: ChainId): ActivityResult {
+  return {
+    month,
+    chainSlug,
+    status: null,
+    hasActivity: false,
+    evidence: null,
+    questId: null,
+    score: null,
+    progress: null,
+    isLoading: false,
+    isChecked: false,
+    error: null,
+  };
+}
+
+function applyOutcome(result: ActivityResult, outcome: ActivityOutcome): ActivityResult {
+  return {
+    ...result,
+    status: outcome.status,
+    hasActivity: outcome.status === 'active',
+    evidence: outcome.evidence,
+    questId: outcome.questId,
+    score: outcome.score,
+    progress: null,
+    isLoading: false,
+    isChecked: true,
+    error: outcome.error?.message ?? null,
+  };
+}
+
 export function useActivityCheck(chainSlug: ChainId) {
   const { address, isConnected } = useAccount();
   const monthConfigs = getMonthConfigsForChain(chainSlug);
@@ -23,100 +60,153 @@ export function useActivityCheck(chainSlug: ChainId) {
   const [results, setResults] = useState<Record<Month, ActivityResult>>(() => {
     const initial: Record<Month, ActivityResult> = {} as Record<Month, ActivityResult>;
     monthConfigs.forEach((config) => {
-      initial[config.name] = {
-        month: config.name,
-        chainSlug,
-        hasActivity: false,
-        isLoading: false,
-        isChecked: false,
-        error: null,
-      };
+      initial[config.name] = emptyResult(config.name, chainSlug);
     });
     return initial;
   });
   const [isCheckingAll, setIsCheckingAll] = useState(false);
   const checkingRef = useRef(false);
+  // Cancels in-flight checks when the wallet or chain changes
+  const abortRef = useRef<AbortController | null>(null);
+  // Where each month's current run of chunks started, to extrapolate the ETA
+  const progressRunsRef = useRef<Partial<Record<Month, ProgressRun>>>({});
 
-  const checkMonth = useCallback(
-    async (month: Month) => {
-      if (!address) return;
+  const startProgress = useCallback((month: Month) => {
+    progressRunsRef.current[month] = { startedAt: Date.now(), startChecked: 0, checked: 0 };
+  }, []);
 
-      setResults((prev) => ({
-        ...prev,
-        [month]: { ...prev[month], isLoading: true, error: null },
-      }));
+  const updateProgress = useCallback((month: Month, checked: number, total: number) => {
+    // Checker fallbacks and quest requirements each start a fresh run of chunks,
+    // while the total of a running scan grows as ranges get subdivided. Without
+    // a known start the run is measured from its first report.
+    let run = progressRunsRef.current[month];
+    if (!run || checked < run.checked) {
+      run = { startedAt: Date.now(), startChecked: checked, checked };
+    }
+    const done = checked - run.startChecked;
+    const elapsed = Date.now() - run.startedAt;
+    const etaMs = done > 0 ? (elapsed / done) * (total - checked) : null;
+    progressRunsRef.current[month] = { ...run, checked };
+
+    setResults((prev) => ({
+      ...prev,
+      [month]: { ...prev[month], progress: { checked, total, etaMs } },
+    }));
+  }, []);
 
+  // Check one month on the server, following its progress. Returns false when
+  // the check was cancelled and its result must be dropped.
+  const runMonth = useCallback(
+    async (month: Month, signal: AbortSignal | undefined, fresh: boolean) => {
+      if (!address) return false;
       try {
-        const hasActivity = await checkActivityForMonth(address, chainSlug, month);
+        const outcome = await fetchActivityForMonth(address, chainSlug, month, {
+          onProgress: (checked, total) => {
+            if (!signal?.aborted) updateProgress(month, checked, total);
+          },
+          signal,
+          fresh,
+        });
+        if (signal?.aborted) return false;
         setResults((prev) => ({
           ...prev,
-          [month]: { ...prev[month], hasActivity, isLoading: false, isChecked: true },
+          [month]: applyOutcome(prev[month], outcome),
         }));
       } catch (error) {
+        // Results of a cancelled check belong to the previous wallet or chain
+        if (signal?.aborted) return false;
         setResults((prev) => ({
           ...prev,
           [month]: {
             ...prev[month],
+            status: 'unknown',
+            hasActivity: false,
+            evidence: null,
+            questId: null,
+            score: null,
+            progress: null,
             isLoading: false,
             isChecked: true,
             error: error instanceof Error ? error.message : 'Failed to check activity',
           },
         }));
       }
+      return true;
     },
-    [address, chainSlug]
+    [address, chainSlug, updateProgress]
   );
 
-  const checkAllMonths = useCallback(async () => {
-    if (!address || checkingRef.current) return;
-    checkingRef.current = true;
+  const checkMonth = useCallback(
+    async (month: Month) => {
+      if (!address) return;
+
+      startProgress(month);
+      setResults((prev) => ({
+        ...prev,
+        [month]: { ...prev[month], isLoading: true, progress: null, error: null },
+      }));
+
+      await runMonth(month, abortRef.current?.signal, false);
+    },
+    [address, startProgress, runMonth]
+  );
 
-    setIsCheckingAll(true);
+  const checkAllMonths = useCallback(
+    async ({ fresh = false }: { fresh?: boolean } = {}) => {
+      if (!address || checkingRef.current) return;
+      checkingRef.current = true;
+      const signal = abortRef.current?.signal;
 
-    // Set all months to loading
-    setResults((prev) => {
-      const updated = { ...prev };
-      monthConfigs.forEach((config) => {
-        updated[config.name] = { ...updated[config.name], isLoading: true, error: null };
-      });
-      return updated;
-    });
+      setIsCheckingAll(true);
 
-    try {
-      await checkAllMonthsActivity(address, chainSlug, (month, hasActivity) => {
-        setResults((prev) => ({
-          ...prev,
-          [month]: { ...prev[month], hasActivity, isLoading: false, isChecked: true },
-        }));
-      });
-    } catch (error) {
-      // Set error for all months that are still loading
+      // Set all months to loading
+      // Months are checked one after another, so each run starts at its first report
+      progressRunsRef.current = {};
       setResults((prev) => {
         const updated = { ...prev };
         monthConfigs.forEach((config) => {
-          if (updated[config.name].isLoading) {
-            updated[config.name] = {
-              ...updated[config.name],
-              isLoading: false,
-              isChecked: true,
-              error: error instanceof Error ? error.message : 'Failed to check activity',
-            };
-          }
+          updated[config.name] = { ...updated[config.name], isLoading: true, progress: null, error: null };
         });
         return updated;
       });
-    } finally {
+
+      // One month at a time to keep the server's explorer budget for everyone
+      for (const config of monthConfigs) {
+        // A cancelled run was already reset, and a newer one may be in progress
+        if (!(await runMonth(config.name, signal, fresh))) return;
+      }
+
       setIsCheckingAll(false);
       checkingRef.current = false;
-    }
-  }, [address, chainSlug, monthConfigs]);
+    },
+    [address, monthConfigs, runMonth]
+  );
 
   const refreshActivity = useCallback(() => {
     if (address) {
-      clearActivityCache(address, chainSlug);
-      checkAllMonths();
+      checkAllMonths({ fresh: true });
     }
-  }, [address, chainSlug, checkAllMonths]);
+  }, [address, checkAllMonths]);
+
+  // Abort every check started for the previous wallet or chain, and on unmount
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => {
+      controller.abort();
+      checkingRef.current = false;
+      setIsCheckingAll(false);
+      // Results (and months left loading by the cancelled checks) belonged to
+      // the previous wallet or chain
+      setResults((prev) => {
+        const reset = { ...prev };
+        (Object.keys(reset) as Month[]).forEach((month) => {
+          reset[month] = emptyResult(month, reset[month].chainSlug);
+        });
+        return reset;
+      });
+    };
+  }, [address, chainSlug]);
 
   // Auto-check only the current month when wallet connects
   useEffect(() => {
@@ -132,14 +222,7 @@ export function useActivityCheck(chainSlug: ChainId) {
       setResults((prev) => {
         const reset = { ...prev };
         monthConfigs.forEach((config) => {
-          reset[config.name] = {
-            month: config.name,
-            chainSlug,
-            hasActivity: false,
-            isLoading: false,
-            isChecked: false,
-            error: null,
-          };
+          reset[config.name] = emptyResult(config.name, chainSlug);
         });
         return reset;
       });
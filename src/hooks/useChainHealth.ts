@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { type ChainHealth, type ChainId } from '@/types';
+
+// Re-check while the page stays open
+const POLL_INTERVAL_MS = 60000;
+
+// Latest /api/health entry for the chain; null until loaded or when the
+// endpoint can't be reached
+export function useChainHealth(chainSlug: ChainId): ChainHealth | null {
+  const [health, setHealth] = useState<ChainHealth | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/health?chain=${chainSlug}`, { signal: controller.signal });
+        if (!response.ok) return;
+        const data: { chains: ChainHealth[] } = await response.json();
+        setHealth(data.chains[0] ?? null);
+      } catch {
+        // Keep the last known state
+      }
+    };
+
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+      setHealth(null);
+    };
+  }, [chainSlug]);
+
+  return health;
+}
@@ -3,7 +3,8 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
 import { type Month, type ChainId } from '@/types';
-import { ACTIVITY_NFT_ABI, getContractAddress } from '@/lib/contracts';
+import { ACTIVITY_NFT_ABI, getContractAddress, getMonthConfig } from '@/lib/contracts';
+import { fetchTierApproval } from '@/lib/activityCheck/api';
 
 const CONFIRM_TIMEOUT_MS = 60_000; // 60 seconds
 const STORAGE_KEY = 'activity-proof-pending-mints';
@@ -66,11 +67,17 @@ interface UseMintReturn {
   isLoadingSupply: boolean;
 }
 
-export function useMint(chainSlug: ChainId, month: Month): UseMintReturn {
+// tier is the client's scored tier, null mints the default metadata; tiered
+// mints use the tier the server approves, which it scores again itself
+export function useMint(chainSlug: ChainId, month: Month, tier: number | null = null): UseMintReturn {
   const { address, isConnected } = useAccount();
   const [error, setError] = useState<string | null>(null);
+  // Fetching the server's tier approval before the wallet prompt
+  const [isSigning, setIsSigning] = useState(false);
 
   const contractAddress = getContractAddress(chainSlug, month);
+  // Only tiered months are deployed with a contract that supports mintWithTier
+  const isTiered = !!getMonthConfig(chainSlug, month)?.tiers?.length;
 
   // Restore pending mint txHash from localStorage on mount
   const [restoredTxHash, setRestoredTxHash] = useState<`0x${string}` | undefined>(undefined);
@@ -129,7 +136,7 @@ export function useMint(chainSlug: ChainId, month: Month): UseMintReturn {
   const {
     writeContract,
     data: writeTxHash,
-    isPending: isMinting,
+    isPending: isWritePending,
     error: writeError,
     reset: resetWrite,
   } = useWriteContract();
@@ -226,12 +233,28 @@ export function useMint(chainSlug: ChainId, month: Month): UseMintReturn {
     }
 
     setError(null);
+    if (isTiered && tier !== null && address) {
+      // The server re-scores the wallet and signs the tier it reached
+      setIsSigning(true);
+      fetchTierApproval(address, chainSlug, month)
+        .then((approval) => {
+          writeContract({
+            address: contractAddress,
+            abi: ACTIVITY_NFT_ABI,
+            functionName: 'mintWithTier',
+            args: [BigInt(approval.tier), approval.signature],
+          });
+        })
+        .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Failed to approve tier'))
+        .finally(() => setIsSigning(false));
+      return;
+    }
     writeContract({
       address: contractAddress,
       abi: ACTIVITY_NFT_ABI,
       functionName: 'mint',
     });
-  }, [contractAddress, isConnected, writeContract]);
+  }, [contractAddress, isConnected, isTiered, tier, address, chainSlug, month, writeContract]);
 
   const reset = useCallback(() => {
     setError(null);
@@ -246,7 +269,7 @@ export function useMint(chainSlug: ChainId, month: Month): UseMintReturn {
   return {
     hasMinted: hasMintedData ?? false,
     isLoadingMintStatus,
-    isMinting,
+    isMinting: isSigning || isWritePending,
     isConfirming,
     isConfirmTimeout,
     mint,
@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import { type CacheStore } from '../environment';
+
+// One JSON file, read once and rewritten on every change. Node only, for
+// scripts and the CLI; a missing or unreadable file starts out empty.
+export function createFileCacheStore(path: string): CacheStore {
+  let entries: Promise<Record<string, string>> | null = null;
+
+  const load = () => {
+    entries ??= fs
+      .readFile(path, 'utf8')
+      .then((text) => JSON.parse(text) as Record<string, string>)
+      .catch(() => ({}));
+    return entries;
+  };
+
+  const save = async (update: (data: Record<string, string>) => void) => {
+    const data = await load();
+    update(data);
+    await fs.writeFile(path, JSON.stringify(data, null, 2));
+  };
+
+  return {
+    async get(key) {
+      return (await load())[key] ?? null;
+    },
+    async set(key, value) {
+      await save((data) => {
+        data[key] = value;
+      });
+    },
+    async delete(key) {
+      await save((data) => {
+        delete data[key];
+      });
+    },
+    async keys() {
+      return Object.keys(await load());
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { type CacheStore } from '../environment';
+
+// The browser's localStorage, shared with everything else on the origin; keys
+// are used as they are, so entries written before the store existed still count
+export function createLocalStorageCacheStore(): CacheStore {
+  return {
+    async get(key) {
+      return localStorage.getItem(key);
+    },
+    async set(key, value) {
+      localStorage.setItem(key, value);
+    },
+    async delete(key) {
+      localStorage.removeItem(key);
+    },
+    async keys() {
+      return Object.keys(localStorage);
+    },
+  };
+}
@@ -0,0 +1,20 @@
+import { type CacheStore } from '../environment';
+
+// In-process store, gone when the process exits
+export function createMemoryCacheStore(): CacheStore {
+  const entries = new Map<string, string>();
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, value) {
+      entries.set(key, value);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async keys() {
+      return [...entries.keys()];
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { type ActivityCheckErrorInfo, type ActivityOutcome, type ChainId, type Month } from '@/types';
+import { getActivityCheckEnvironment } from './environment';
+import { ActivityCheckError } from './errors';
+
+type ActivityStreamLine =
+  | { type: 'progress'; checked: number; total: number }
+  | { type: 'result'; outcome: ActivityOutcome }
+  | { type: 'error'; error: ActivityCheckErrorInfo };
+
+export interface FetchActivityOptions {
+  onProgress?: (checked: number, total: number) => void;
+  signal?: AbortSignal;
+  fresh?: boolean;               // Skip the server's cached outcome
+}
+
+// Ask the app's /api/activity to check a month on its server, following the
+// progress stream. Failures of the endpoint itself are raised as
+// ActivityCheckErrors. Outside a browser, the environment's baseUrl names the app.
+export async function fetchActivityForMonth(
+  address: string,
+  chainSlug: ChainId,
+  month: Month,
+  { onProgress, signal, fresh }: FetchActivityOptions = {}
+): Promise<ActivityOutcome> {
+  const query = new URLSearchParams({ chain: chainSlug, address, month });
+  if (fresh) {
+    query.set('fresh', '1');
+  }
+
+  const { fetch, baseUrl } = getActivityCheckEnvironment();
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl ?? ''}/api/activity?${query}`, {
+      headers: { Accept: 'application/x-ndjson' },
+      signal,
+    });
+  } catch (error) {
+    signal?.throwIfAborted();
+    throw new ActivityCheckError('network_error', error instanceof Error ? error.message : 'Network error');
+  }
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new ActivityCheckError(
+      response.status === 429 ? 'rate_limited' : response.status >= 500 ? 'upstream_error' : 'invalid_response',
+      data?.error?.message ?? `Request failed with HTTP ${response.status}`
+    );
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line) continue;
+      let message: ActivityStreamLine;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        throw new ActivityCheckError('invalid_response', 'Malformed line in the activity stream');
+      }
+      if (message.type === 'progress') {
+        onProgress?.(message.checked, message.total);
+      } else if (message.type === 'result') {
+        return message.outcome;
+      } else {
+        throw new ActivityCheckError(message.error.code, message.error.message);
+      }
+    }
+  }
+
+  throw new ActivityCheckError('invalid_response', 'Activity stream ended without a result');
+}
+
+export interface TierApproval {
+  tier: number;
+  signature: `0x${string}`;
+}
+
+// Ask the app's /api/mint-signature for the tier signer's approval to mint the
+// month's tier the wallet reached. Raises the endpoint's error message, e.g.
+// when the wallet is below the lowest tier.
+export async function fetchTierApproval(address: string, chainSlug: ChainId, month: Month): Promise<TierApproval> {
+  const query = new URLSearchParams({ chain: chainSlug, address, month });
+  const { fetch, baseUrl } = getActivityCheckEnvironment();
+  const response = await fetch(`${baseUrl ?? ''}/api/mint-signature?${query}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error?.message ?? `Tier approval failed with HTTP ${response.status}`);
+  }
+  return data;
+}
@@ -0,0 +1,24 @@
+import { type ChainId } from '@/types';
+
+// Server-only environment variables holding each chain's explorer API keys.
+// They must never carry the NEXT_PUBLIC_ prefix, next.config.ts refuses to
+// build when a secret is exposed that way. Chains served by Etherscan V2
+// share one key; chains without an explorer API have none.
+export const API_KEY_ENV: Partial<Record<ChainId, string>> = {
+  'pharos-atlantic': 'SOCIALSCAN_API_KEY',
+  'ethereum-sepolia': 'ETHERSCAN_API_KEY',
+  'base-sepolia': 'ETHERSCAN_API_KEY',
+  'arbitrum-sepolia': 'ETHERSCAN_API_KEY',
+  'iopn-testnet': 'IOPN_API_KEY',
+};
+
+// The key pool in a variable: one key, or several separated by commas to
+// rotate through. Only resolves on the server; in the browser the variables
+// are not defined.
+export function getApiKeys(envName: string | undefined): string[] {
+  if (!envName) return [];
+  return (process.env[envName] ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,141 @@
+import { type ActivityCheckerKind, type ChainConfig, type Month, type MonthConfig } from '@/types';
+import { getActivityCheckEnvironment } from './environment';
+import { ActivityCheckError } from './errors';
+import { getBlockNumberByTime } from './explorer';
+import { findBlockByTime } from './rpc';
+
+export interface BlockRange {
+  startBlock: number;
+  endBlock: number;
+}
+
+type BlockResolver = (
+  chain: ChainConfig,
+  timestamp: number,
+  closest: 'before' | 'after',
+  signal?: AbortSignal
+) => Promise<number | null>;
+
+const BLOCK_RESOLVERS: Record<ActivityCheckerKind, BlockResolver> = {
+  explorer: getBlockNumberByTime,
+  rpc: findBlockByTime,
+};
+
+const MONTH_INDEX: Record<Month, number> = {
+  January: 0,
+  February: 1,
+  September: 8,
+  October: 9,
+  November: 10,
+  December: 11,
+};
+
+// UTC unix timestamps (seconds) of the first and last second of the month
+export function getMonthTimeRange(config: MonthConfig): { startTime: number; endTime: number } {
+  const monthIndex = MONTH_INDEX[config.name];
+  return {
+    startTime: Date.UTC(config.year, monthIndex, 1) / 1000,
+    endTime: Date.UTC(config.year, monthIndex + 1, 1) / 1000 - 1,
+  };
+}
+
+function getCacheKey(config: MonthConfig): string {
+  return `blockrange_${config.chainSlug}_${config.year}_${config.name}`;
+}
+
+const memoryCache = new Map<string, BlockRange>();
+
+async function getCachedRange(config: MonthConfig): Promise<BlockRange | null> {
+  const key = getCacheKey(config);
+  const cached = memoryCache.get(key);
+  if (cached) return cached;
+
+  // A store that fails or holds something unreadable is treated as a miss
+  try {
+    const stored = await getActivityCheckEnvironment().cache?.get(key);
+    const range: BlockRange | null = stored ? JSON.parse(stored) : null;
+    if (Number.isInteger(range?.startBlock) && Number.isInteger(range?.endBlock)) {
+      memoryCache.set(key, range!);
+      return range;
+    }
+  } catch {
+    // Resolved again below
+  }
+  return null;
+}
+
+// Boundaries of a finished month never change, so only those are cached
+async function setCachedRange(config: MonthConfig, range: BlockRange): Promise<void> {
+  const key = getCacheKey(config);
+  memoryCache.set(key, range);
+  try {
+    await getActivityCheckEnvironment().cache?.set(key, JSON.stringify(range));
+  } catch {
+    // The in-memory copy still serves this process
+  }
+}
+
+// Try each of the chain's backends in order until one resolves the block.
+// Null when a backend answered that no block matches; when every backend
+// failed, the last failure is raised as an ActivityCheckError.
+async function resolveBlock(
+  chain: ChainConfig,
+  timestamp: number,
+  closest: 'before' | 'after',
+  signal?: AbortSignal
+): Promise<number | null> {
+  let answered = false;
+  let lastError: unknown = new Error(`No block resolver configured for chain: ${chain.slug}`);
+  for (const kind of chain.activityCheck.checkers) {
+    try {
+      const block = await BLOCK_RESOLVERS[kind](chain, timestamp, closest, signal);
+      if (block !== null) return block;
+      answered = true;
+    } catch (error) {
+      lastError = error;
+    }
+    signal?.throwIfAborted();
+  }
+  if (answered) return null;
+  if (lastError instanceof ActivityCheckError) throw lastError;
+  const message = lastError instanceof Error ? lastError.message : 'Block lookup failed';
+  throw new ActivityCheckError('upstream_error', `Could not resolve the month's block range: ${message}`);
+}
+
+// Resolve the exact first and last block of a month from its UTC calendar
+// dates. The hardcoded startBlock/endBlock in MonthConfig are only used when
+// the chain has no block at one of the boundaries, or the lookups fail before
+// the month has begun. Failed lookups for a started month are raised: scanning
+// a guessed range could wrongly find the wallet inactive.
+export async function resolveMonthBlockRange(
+  chain: ChainConfig,
+  config: MonthConfig,
+  signal?: AbortSignal
+): Promise<BlockRange> {
+  const cached = await getCachedRange(config);
+  if (cached) return cached;
+
+  const { startTime, endTime } = getMonthTimeRange(config);
+  const isClosed = endTime < Date.now() / 1000;
+  const hasStarted = startTime <= Date.now() / 1000;
+
+  const [startBlock, endBlock] = await Promise.all([
+    resolveBlock(chain, startTime, 'after', signal),
+    resolveBlock(chain, endTime, 'before', signal),
+  ]).catch((error) => {
+    signal?.throwIfAborted();
+    if (hasStarted) throw error;
+    return [null, null];
+  });
+
+  // Month hasn't started yet or the lookups failed - keep the configured guess
+  if (startBlock === null || endBlock === null) {
+    return { startBlock: config.startBlock, endBlock: config.endBlock };
+  }
+
+  const range = { startBlock, endBlock };
+  if (isClosed) {
+    await setCachedRange(config, range);
+  }
+  return range;
+}
@@ -0,0 +1,103 @@
+import { type ActivityTransaction, type ChainConfig, type CheckerOptions } from '@/types';
+import { REST_TRANSACTIONS } from './dialects';
+import { ActivityCheckError } from './errors';
+import { withRetry } from './http';
+import { sendExplorerRequest } from './request';
+import { evaluateCriteria, matchesCriteria, needsFullScan } from './criteria';
+
+// Rows paged through per range before it counts as too large, as with txlist
+const MAX_ROWS = 10000;
+
+interface RestAddress {
+  hash: string;
+}
+
+interface RestTransaction {
+  hash: string;
+  block_number: number | null;   // null while pending
+  timestamp: string;             // ISO 8601
+  from: RestAddress;
+  to: RestAddress | null;        // null for contract creations
+  value: string;
+  raw_input: string | null;
+  status: 'ok' | 'error' | null;
+}
+
+type RestCursor = Record<string, string | number>;
+
+interface RestTransactionsResponse {
+  items: RestTransaction[];
+  next_page_params: RestCursor | null;
+}
+
+// Same shape as txlist rows: lowercase addresses, '' as the recipient of a
+// contract creation
+function normalizeTransaction(tx: RestTransaction): ActivityTransaction {
+  return {
+    hash: tx.hash,
+    blockNumber: tx.block_number ?? 0,
+    timestamp: Math.floor(Date.parse(tx.timestamp) / 1000),
+    from: tx.from.hash.toLowerCase(),
+    to: tx.to?.hash.toLowerCase() ?? '',
+    input: tx.raw_input || '0x',
+    isError: tx.status === 'error',
+  };
+}
+
+function checkResponse(data: RestTransactionsResponse): RestTransactionsResponse {
+  if (!Array.isArray(data?.items)) {
+    throw new ActivityCheckError('invalid_response', 'Unexpected Blockscout response');
+  }
+  return data;
+}
+
+// Return the range's transactions that match the criteria and quest, from the
+// Blockscout REST API. It lists an address's transactions newest first with
+// a cursor of (block_number, index): starting the cursor just past endBlock
+// and following next_page_params until the rows reach startBlock covers the
+// range. Like fetchChunk, paging stops as soon as the rows so far settle the
+// check, unless metrics are being collected. Since pages run newest first,
+// those rows need not include the range's earliest transaction. Rows come
+// back in ascending order like fetchChunk's.
+export async function fetchRestChunk(
+  chain: ChainConfig,
+  address: string,
+  startBlock: number,
+  endBlock: number,
+  { criteria, quest, collectMetrics, signal, priority }: CheckerOptions
+): Promise<ActivityTransaction[]> {
+  const fullScan = needsFullScan(criteria, quest) || !!collectMetrics;
+  const qualifying: ActivityTransaction[] = [];
+  let cursor: RestCursor | null = { block_number: endBlock + 1, index: 0 };
+  let rows = 0;
+
+  while (cursor) {
+    const params = { ...REST_TRANSACTIONS, address, ...cursor };
+    const data: RestTransactionsResponse = await withRetry(
+      () => sendExplorerRequest(chain, params, checkResponse, { priority, signal }),
+      signal
+    );
+    const items = data.items.filter((tx) => tx.block_number !== null);
+    const inRange = items.filter((tx) => tx.block_number! >= startBlock && tx.block_number! <= endBlock);
+    qualifying.push(
+      ...inRange.map(normalizeTransaction).filter((tx) => matchesCriteria(tx, address, criteria, quest))
+    );
+
+    rows += items.length;
+    if (inRange.length < items.length || !data.next_page_params) {
+      break;
+    }
+    if (!fullScan && qualifying.length > 0) {
+      break;
+    }
+    if (!collectMetrics && evaluateCriteria(qualifying, address, criteria, quest).satisfied) {
+      break;
+    }
+    if (rows >= MAX_ROWS) {
+      throw new ActivityCheckError('range_too_large', 'Range holds more transactions than the explorer can page');
+    }
+    cursor = data.next_page_params;
+  }
+
+  return qualifying.reverse();
+}
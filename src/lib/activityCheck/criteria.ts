@@ -0,0 +1,82 @@
+import {
+  type ActivityCriteria,
+  type ActivityEvidence,
+  type ActivityTransaction,
+  type QuestRequirement,
+} from '@/types';
+
+// Without criteria the first transaction of any kind settles the check, so
+// checkers can stop at one row instead of paging through the whole range
+export function needsFullScan(criteria?: ActivityCriteria, quest?: QuestRequirement): boolean {
+  if (quest) return true;
+  if (!criteria) return false;
+  return (
+    !!criteria.outgoingOnly ||
+    !!criteria.successOnly ||
+    (criteria.minTxCount ?? 1) > 1 ||
+    (criteria.minActiveDays ?? 0) > 1
+  );
+}
+
+// A quest call must be sent by the wallet to the quest contract, succeed, and
+// hit one of the listed selectors if any are given
+export function matchesQuest(tx: ActivityTransaction, address: string, quest: QuestRequirement): boolean {
+  if (tx.from.toLowerCase() !== address.toLowerCase() || tx.isError) {
+    return false;
+  }
+  if (tx.to.toLowerCase() !== quest.contract.toLowerCase()) {
+    return false;
+  }
+  if (!quest.selectors?.length) {
+    return true;
+  }
+  const selector = tx.input.slice(0, 10).toLowerCase();
+  return quest.selectors.some((s) => s.toLowerCase() === selector);
+}
+
+export function matchesCriteria(
+  tx: ActivityTransaction,
+  address: string,
+  criteria?: ActivityCriteria,
+  quest?: QuestRequirement
+): boolean {
+  if (quest && !matchesQuest(tx, address, quest)) {
+    return false;
+  }
+  if (criteria?.outgoingOnly && tx.from.toLowerCase() !== address.toLowerCase()) {
+    return false;
+  }
+  if (criteria?.successOnly && tx.isError) {
+    return false;
+  }
+  return true;
+}
+
+// Check whether the qualifying transactions seen so far satisfy the month's
+// rules. Evidence is the earliest qualifying transaction.
+export function evaluateCriteria(
+  transactions: ActivityTransaction[],
+  address: string,
+  criteria?: ActivityCriteria,
+  quest?: QuestRequirement
+): { satisfied: boolean; evidence: ActivityEvidence | null } {
+  const qualifying = transactions
+    .filter((tx) => matchesCriteria(tx, address, criteria, quest))
+    .sort((a, b) => a.blockNumber - b.blockNumber);
+
+  const activeDays = new Set(
+    qualifying.map((tx) => new Date(tx.timestamp * 1000).toISOString().slice(0, 10))
+  );
+  const satisfied =
+    qualifying.length > 0 &&
+    qualifying.length >= (criteria?.minTxCount ?? 1) &&
+    activeDays.size >= (criteria?.minActiveDays ?? 0);
+
+  const first = qualifying[0];
+  return {
+    satisfied,
+    evidence: satisfied
+      ? { hash: first.hash, blockNumber: first.blockNumber, timestamp: first.timestamp }
+      : null,
+  };
+}
@@ -0,0 +1,40 @@
+import { type ExplorerDialect } from '@/types';
+
+// Calls to the Blockscout REST API travel as module=addresses&action=transactions
+// queries, like compatibility API calls, so they share the scheduler, proxy and
+// upstream pool; only the upstream URL is built differently
+export const REST_TRANSACTIONS = { module: 'addresses', action: 'transactions' } as const;
+
+export function isRestRequest(params: URLSearchParams): boolean {
+  return params.get('module') === REST_TRANSACTIONS.module && params.get('action') === REST_TRANSACTIONS.action;
+}
+
+// Etherscan-style explorers return the block as a number or numeric string,
+// Blockscout's compatibility API wraps it in { blockNumber }
+export function parseBlockNumber(dialect: ExplorerDialect, result: unknown): number | null {
+  const raw = dialect === 'etherscan' ? result : (result as { blockNumber?: string } | null)?.blockNumber;
+  const block = typeof raw === 'number' ? raw : parseInt(String(raw), 10);
+  return Number.isFinite(block) && block >= 0 ? block : null;
+}
+
+// Shape a getblocknobytime result the way the given dialect returns it
+export function formatBlockNumber(dialect: ExplorerDialect, block: number): unknown {
+  return dialect === 'etherscan' ? String(block) : { blockNumber: String(block) };
+}
+
+// Upstream URL for a query. `baseUrl` is the compatibility API endpoint
+// (e.g. https://explorer/api); the REST API lives under its /v2 path, with the
+// address in the path and the remaining parameters as the pagination cursor.
+export function buildRequestUrl(baseUrl: string, params: URLSearchParams): string {
+  if (!isRestRequest(params)) {
+    return `${baseUrl}?${params}`;
+  }
+
+  const cursor = new URLSearchParams(params);
+  const address = cursor.get('address') ?? '';
+  for (const key of ['module', 'action', 'address']) {
+    cursor.delete(key);
+  }
+  const query = cursor.toString();
+  return `${baseUrl}/v2/addresses/${address}/transactions${query ? `?${query}` : ''}`;
+}
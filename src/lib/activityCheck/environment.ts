@@ -0,0 +1,48 @@
+import { createLocalStorageCacheStore } from './adapters/localStorage';
+
+// Everything the checkers need from their surroundings, so the same code runs
+// in the browser, in Next.js route handlers and in plain Node (scripts, the
+// check-activity CLI). Defaults are picked by where the code runs; call
+// configureActivityCheck before the first check to replace any of them.
+
+// String storage for conclusive outcomes and the block ranges of closed
+// months. Asynchronous so stores backed by files or a server fit too.
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface ActivityCheckEnvironment {
+  fetch: typeof fetch;
+  // Origin of an app serving /api/explorer and /api/activity ('' for the page's
+  // own). null calls the explorer upstreams directly, with this process's keys.
+  baseUrl: string | null;
+  cache: CacheStore | null;      // null: results are not persisted
+}
+
+// Looked up on every call, so code that swaps globalThis.fetch (tests) still applies
+const globalFetch: typeof fetch = (input, init) => globalThis.fetch(input, init);
+
+function detectEnvironment(): ActivityCheckEnvironment {
+  // Browsers always go through the server-side proxy, which avoids CORS issues
+  // and keeps API keys off the client
+  if (typeof window !== 'undefined') {
+    return { fetch: globalFetch, baseUrl: '', cache: createLocalStorageCacheStore() };
+  }
+  return { fetch: globalFetch, baseUrl: null, cache: null };
+}
+
+let environment: ActivityCheckEnvironment | null = null;
+
+export function getActivityCheckEnvironment(): ActivityCheckEnvironment {
+  environment ??= detectEnvironment();
+  return environment;
+}
+
+// Overrides apply on top of the current environment. RPC clients are created
+// lazily per chain and keep the fetch they were created with.
+export function configureActivityCheck(overrides: Partial<ActivityCheckEnvironment>): void {
+  environment = { ...getActivityCheckEnvironment(), ...overrides };
+}
@@ -0,0 +1,31 @@
+import { type ActivityErrorCode, type ActivityCheckErrorInfo } from '@/types';
+
+// Codes worth another attempt after a backoff
+const RETRYABLE_CODES: ActivityErrorCode[] = ['rate_limited', 'timeout', 'network_error', 'upstream_error'];
+
+export class ActivityCheckError extends Error {
+  readonly code: ActivityErrorCode;
+  readonly retryAfterMs: number | null;
+
+  constructor(code: ActivityErrorCode, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ActivityCheckError';
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+// Serializable summary of any error thrown inside the checker pipeline
+export function toErrorInfo(error: unknown): ActivityCheckErrorInfo {
+  if (error instanceof ActivityCheckError) {
+    return { code: error.code, message: error.message };
+  }
+  return {
+    code: 'unknown_error',
+    message: error instanceof Error ? error.message : 'Failed to check activity',
+  };
+}
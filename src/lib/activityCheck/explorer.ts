@@ -0,0 +1,291 @@
+import {
+  type ActivityTransaction,
+  type ChainConfig,
+  type ChainId,
+  type CheckerOptions,
+  type CheckerResult,
+} from '@/types';
+import { parseBlockNumber } from './dialects';
+import { ActivityCheckError } from './errors';
+import { withRetry } from './http';
+import { sendExplorerRequest } from './request';
+import { fetchRestChunk } from './blockscout';
+import { evaluateCriteria, matchesCriteria, needsFullScan } from './criteria';
+import { computeMetrics } from './score';
+
+const PAGE_SIZE = 100;
+// Etherscan-compatible APIs refuse to page beyond page * offset = 10,000 rows
+const MAX_ROWS = 10000;
+
+// Explorer messages for ranges that are too wide or hold too many rows to
+// answer in one request, as opposed to outright failures
+const RANGE_LIMIT_PATTERN =
+  /result window|block range|range (is )?too (large|wide)|too many (results|records)|query timeout/i;
+
+interface ExplorerTransaction {
+  blockNumber: string;
+  timeStamp: string;
+  hash: string;
+  from: string;
+  to: string;
+  value: string;
+  input?: string;
+  isError?: string;              // '1' when the transaction reverted
+  txreceipt_status?: string;     // '0' when the transaction reverted
+}
+
+interface TxListResponse {
+  status: string;
+  message: string;
+  // Error responses carry a description string instead of rows
+  result: ExplorerTransaction[] | string;
+}
+
+// Look up the block closest to a unix timestamp (seconds) via getblocknobytime
+export async function getBlockNumberByTime(
+  chain: ChainConfig,
+  timestamp: number,
+  closest: 'before' | 'after',
+  signal?: AbortSignal
+): Promise<number | null> {
+  const params = { module: 'block', action: 'getblocknobytime', timestamp, closest };
+
+  // Failed requests are raised, so callers can tell them from an explorer
+  // that has no block on that side of the timestamp
+  const data = await withRetry(
+    () => sendExplorerRequest(chain, params, (data: { status: string; result: unknown }) => data, { signal }),
+    signal
+  );
+  if (data.status === '1') {
+    return parseBlockNumber(chain.activityCheck.dialect, data.result);
+  }
+  return null;
+}
+
+const latestBlockCache = new Map<ChainId, { block: number; timestamp: number }>();
+
+export async function getLatestBlock(chain: ChainConfig, signal?: AbortSignal): Promise<number | null> {
+  // Cache for 5 minutes
+  const cached = latestBlockCache.get(chain.slug);
+  if (cached && Date.now() - cached.timestamp < 300000) {
+    return cached.block;
+  }
+
+  const block = await getBlockNumberByTime(chain, 9999999999, 'before', signal).catch(() => {
+    signal?.throwIfAborted();
+    return null;
+  });
+  if (block) {
+    latestBlockCache.set(chain.slug, { block, timestamp: Date.now() });
+  }
+  // Null falls back to the configured endBlock
+  return block;
+}
+
+// Etherscan-compatible APIs answer "no rows" and failures alike with status '0',
+// so tell them apart by the message
+function getTransactions(data: TxListResponse): ExplorerTransaction[] {
+  if (data.status === '1' && Array.isArray(data.result)) {
+    return data.result;
+  }
+  if (Array.isArray(data.result) && /no transactions found/i.test(data.message)) {
+    return [];
+  }
+
+  const detail = typeof data.result === 'string' && data.result ? data.result : data.message;
+  if (/rate limit/i.test(detail)) {
+    throw new ActivityCheckError('rate_limited', detail);
+  }
+  if (RANGE_LIMIT_PATTERN.test(detail)) {
+    throw new ActivityCheckError('range_too_large', detail);
+  }
+  throw new ActivityCheckError('invalid_response', detail || 'Unexpected explorer response');
+}
+
+function normalizeTransaction(tx: ExplorerTransaction): ActivityTransaction {
+  return {
+    hash: tx.hash,
+    blockNumber: parseInt(tx.blockNumber, 10),
+    timestamp: parseInt(tx.timeStamp, 10),
+    from: tx.from,
+    to: tx.to,
+    input: tx.input || '0x',
+    isError: tx.isError === '1' || tx.txreceipt_status === '0',
+  };
+}
+
+// Return the range's transactions that match the criteria and quest. Without
+// either a single row (sorted ascending, so the earliest) is enough; otherwise
+// page until the range is exhausted or - unless metrics are being collected -
+// its own rows already satisfy the rules. A range with more rows than the
+// explorer can page through is reported as range_too_large.
+async function fetchChunk(
+  chain: ChainConfig,
+  address: string,
+  startBlock: number,
+  endBlock: number,
+  { criteria, quest, collectMetrics, signal, priority }: CheckerOptions
+): Promise<ActivityTransaction[]> {
+  const fullScan = needsFullScan(criteria, quest) || !!collectMetrics;
+  const offset = fullScan ? PAGE_SIZE : 1;
+  const qualifying: ActivityTransaction[] = [];
+
+  for (let page = 1; page * offset <= MAX_ROWS; page++) {
+    const params = {
+      module: 'account',
+      action: 'txlist',
+      address,
+      startblock: startBlock,
+      endblock: endBlock,
+      page,
+      offset,
+      sort: 'asc',
+    };
+    const rows = await withRetry(
+      () => sendExplorerRequest(chain, params, getTransactions, { priority, signal }),
+      signal
+    );
+    qualifying.push(
+      ...rows.map(normalizeTransaction).filter((tx) => matchesCriteria(tx, address, criteria, quest))
+    );
+
+    if (!fullScan || rows.length < offset) {
+      break;
+    }
+    if (!collectMetrics && evaluateCriteria(qualifying, address, criteria, quest).satisfied) {
+      break;
+    }
+    if ((page + 1) * offset > MAX_ROWS) {
+      throw new ActivityCheckError('range_too_large', 'Range holds more transactions than the explorer can page');
+    }
+  }
+
+  return qualifying;
+}
+
+// Widest range each chain's explorer has managed without a range limit error,
+// learned as ranges get subdivided so later scans start at a workable size
+const learnedRangeSize = new Map<ChainId, number>();
+
+// A scan that needed no subdivision may only have been held back by the
+// learned size, so the next one tries twice as wide. One busy wallet doesn't
+// slow down every later scan for good: the size grows back to the full range.
+function widenLearnedRangeSize(chain: ChainConfig, span: number): void {
+  const size = learnedRangeSize.get(chain.slug);
+  if (size === undefined) return;
+  if (size * 2 >= span) {
+    learnedRangeSize.delete(chain.slug);
+  } else {
+    learnedRangeSize.set(chain.slug, size * 2);
+  }
+}
+
+interface BlockRange {
+  start: number;
+  end: number;
+}
+
+function splitRange(startBlock: number, endBlock: number, size: number): BlockRange[] {
+  const ranges: BlockRange[] = [];
+  for (let start = startBlock; start <= endBlock; start += size) {
+    ranges.push({ start, end: Math.min(start + size - 1, endBlock) });
+  }
+  return ranges;
+}
+
+// Scan the chain's explorer (txlist, or the Blockscout REST API for the
+// blockscout-v2 dialect) for transactions in the block range that satisfy the
+// month's criteria. The whole range is tried in a single request
+// first (or in ranges of the size learned for the chain); ranges the explorer
+// refuses as too wide or too full are halved, down to the chain's chunkSize.
+// Throws an ActivityCheckError when part of the range could not be checked and
+// the rest did not already prove activity.
+export async function checkActivity(
+  chain: ChainConfig,
+  address: string,
+  startBlock: number,
+  endBlock: number,
+  options: CheckerOptions = {}
+): Promise<CheckerResult> {
+  const { criteria, quest, collectMetrics, onProgress, signal } = options;
+  const { chunkSize, maxConcurrent, dialect } = chain.activityCheck;
+  const fetchRange = dialect === 'blockscout-v2' ? fetchRestChunk : fetchChunk;
+
+  // Cap endBlock at the actual latest block to avoid checking future blocks
+  const latestBlock = await getLatestBlock(chain, signal);
+  if (latestBlock) {
+    endBlock = Math.min(endBlock, latestBlock);
+  }
+
+  // Month hasn't started yet
+  if (startBlock > endBlock) {
+    return { hasActivity: false, evidence: null, metrics: collectMetrics ? computeMetrics([]) : null };
+  }
+
+  // Ranges are kept in ascending order so the earliest activity is found first
+  let pending = splitRange(
+    startBlock,
+    endBlock,
+    learnedRangeSize.get(chain.slug) ?? endBlock - startBlock + 1
+  );
+
+  const found: ActivityTransaction[] = [];
+  let checked = 0;
+  let wasSubdivided = false;
+  while (pending.length > 0) {
+    const batch = pending.slice(0, maxConcurrent);
+    pending = pending.slice(maxConcurrent);
+    const results = await Promise.allSettled(
+      batch.map((range) => fetchRange(chain, address, range.start, range.end, options))
+    );
+
+    // Don't let a cancelled check masquerade as a result
+    signal?.throwIfAborted();
+
+    const subdivided: BlockRange[] = [];
+    let failure: unknown = null;
+    results.forEach((result, i) => {
+      const { start, end } = batch[i];
+      const size = end - start + 1;
+      if (result.status === 'fulfilled') {
+        found.push(...result.value);
+        checked++;
+      } else if (
+        result.reason instanceof ActivityCheckError &&
+        result.reason.code === 'range_too_large' &&
+        size > chunkSize
+      ) {
+        const half = Math.max(Math.ceil(size / 2), chunkSize);
+        learnedRangeSize.set(chain.slug, Math.min(learnedRangeSize.get(chain.slug) ?? half, half));
+        subdivided.push(...splitRange(start, end, half));
+        wasSubdivided = true;
+      } else {
+        failure ??= result.reason;
+      }
+    });
+    pending = [...subdivided, ...pending];
+
+    // The total grows whenever a range has to be subdivided
+    onProgress?.(checked, checked + pending.length);
+
+    const { satisfied, evidence } = evaluateCriteria(found, address, criteria, quest);
+
+    // Metrics need the whole range; if part of it failed, activity still stands
+    // but the counts would be partial, so report none
+    if (satisfied && (!collectMetrics || failure)) {
+      if (!wasSubdivided) widenLearnedRangeSize(chain, endBlock - startBlock + 1);
+      return { hasActivity: true, evidence, metrics: null };
+    }
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  if (!wasSubdivided) widenLearnedRangeSize(chain, endBlock - startBlock + 1);
+  const { satisfied, evidence } = evaluateCriteria(found, address, criteria, quest);
+  return {
+    hasActivity: satisfied,
+    evidence,
+    metrics: collectMetrics ? computeMetrics(found) : null,
+  };
+}
@@ -0,0 +1,106 @@
+import { getActivityCheckEnvironment } from './environment';
+import { ActivityCheckError } from './errors';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Resolves after ms, or rejects with the signal's reason once it aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+// Single GET returning parsed JSON. Every failure is raised as an
+// ActivityCheckError so callers can tell transient errors from bad data,
+// except cancellation through `signal`, which rethrows the abort reason.
+// The timeout covers the body too, a stalled body must not hold the request.
+export async function fetchJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  // Raised for failures caused by the timeout or by `signal`
+  const abortError = () =>
+    signal?.aborted
+      ? signal.reason
+      : new ActivityCheckError('timeout', `Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+
+  try {
+    let response: Response;
+    try {
+      response = await getActivityCheckEnvironment().fetch(url, { signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) throw abortError();
+      throw new ActivityCheckError('network_error', error instanceof Error ? error.message : 'Network error');
+    }
+
+    if (response.status === 429) {
+      throw new ActivityCheckError(
+        'rate_limited',
+        'Rate limit exceeded',
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    if (!response.ok) {
+      throw new ActivityCheckError(
+        response.status >= 500 ? 'upstream_error' : 'invalid_response',
+        `Request failed with HTTP ${response.status}`
+      );
+    }
+
+    // Bodies that ignore the signal still lose the race against it
+    const aborted = new Promise<never>((_, reject) => {
+      if (controller.signal.aborted) reject(abortError());
+      controller.signal.addEventListener('abort', () => reject(abortError()), { once: true });
+    });
+    aborted.catch(() => {});
+    try {
+      return await Promise.race([response.json() as Promise<T>, aborted]);
+    } catch {
+      if (controller.signal.aborted) throw abortError();
+      throw new ActivityCheckError('invalid_response', 'Malformed JSON response');
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Retry transient failures with exponential backoff and jitter, honoring
+// Retry-After when the server sent one. Aborting `signal` stops the retries.
+export async function withRetry<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof ActivityCheckError) || !error.retryable || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+      const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * RETRY_BASE_DELAY_MS;
+      await sleep(error.retryAfterMs ?? backoff, signal);
+    }
+  }
+}
@@ -1,52 +1,180 @@
-import { type Month, type ChainId } from '@/types';
+import {
+  type Month,
+  type ChainId,
+  type ChainConfig,
+  type ActivityCheckerKind,
+  type ActivityOutcome,
+  type ActivityStatus,
+  type CheckerOptions,
+  type CheckerResult,
+  type MonthConfig,
+} from '@/types';
 import { getMonthConfigsForChain } from '../contracts';
-import { checkActivity as checkPharosActivity } from './pharos';
-import { checkActivity as checkIopnActivity } from './iopn';
+import { CHAINS } from '../chains';
+import { checkActivity as checkExplorerActivity } from './explorer';
+import { checkActivity as checkRpcActivity } from './rpc';
+import { getMonthTimeRange, resolveMonthBlockRange, type BlockRange } from './blockRange';
+import { getActivityCheckEnvironment } from './environment';
+import { toErrorInfo } from './errors';
+import { checkQuests } from './quest';
+import { scoreActivity } from './score';
+
+type ActivityChecker = (
+  chain: ChainConfig,
+  address: string,
+  startBlock: number,
+  endBlock: number,
+  options?: CheckerOptions
+) => Promise<CheckerResult>;
+
+const CHECKERS: Record<ActivityCheckerKind, ActivityChecker> = {
+  explorer: checkExplorerActivity,
+  rpc: checkRpcActivity,
+};
+
+// Explorer requests for the month in progress are queued ahead of past months
+const CURRENT_MONTH_PRIORITY = 1;
+
+const EMPTY_OUTCOME: ActivityOutcome = {
+  status: 'inactive',
+  checker: null,
+  evidence: null,
+  questId: null,
+  score: null,
+  error: null,
+};
 
 function getCacheKey(address: string, chainSlug: ChainId, month: Month): string {
   return `activity_${chainSlug}_${address.toLowerCase()}_${month}`;
 }
 
-function getCachedResult(address: string, chainSlug: ChainId, month: Month): boolean | null {
-  if (typeof window === 'undefined') return null;
-  const cached = localStorage.getItem(getCacheKey(address, chainSlug, month));
-  if (cached) {
-    const { hasActivity, timestamp } = JSON.parse(cached);
-    // Cache for 1 hour
-    if (Date.now() - timestamp < 3600000) {
-      return hasActivity;
+// Whether an outcome may be reused. An 'unknown' result must be re-checked, and
+// so must an active wallet in a tiered month whose backend could not score it
+// (the RPC checker counts no metrics), or its tier would stay unknown for an hour.
+export function isConclusiveOutcome(config: MonthConfig | undefined, outcome: ActivityOutcome): boolean {
+  if (outcome.status === 'unknown') return false;
+  return !(outcome.status === 'active' && config?.tiers?.length && outcome.score === null);
+}
+
+// Only conclusive outcomes are cached, see isConclusiveOutcome.
+// A store that fails or holds something unreadable is treated as a miss.
+async function getCachedResult(address: string, chainSlug: ChainId, month: Month): Promise<ActivityOutcome | null> {
+  try {
+    const cached = await getActivityCheckEnvironment().cache?.get(getCacheKey(address, chainSlug, month));
+    if (cached) {
+      const { timestamp, ...outcome } = JSON.parse(cached);
+      // Cache for 1 hour; entries without a status predate tri-state results
+      if ((outcome.status === 'active' || outcome.status === 'inactive') && Date.now() - timestamp < 3600000) {
+        return { ...EMPTY_OUTCOME, ...outcome };
+      }
     }
+  } catch {
+    // Checked again below
   }
   return null;
 }
 
-function setCachedResult(address: string, chainSlug: ChainId, month: Month, hasActivity: boolean): void {
-  if (typeof window === 'undefined') return;
-  localStorage.setItem(
-    getCacheKey(address, chainSlug, month),
-    JSON.stringify({ hasActivity, timestamp: Date.now() })
-  );
+async function setCachedResult(
+  address: string,
+  config: MonthConfig,
+  outcome: ActivityOutcome
+): Promise<void> {
+  if (!isConclusiveOutcome(config, outcome)) return;
+  const { chainSlug, name: month } = config;
+  try {
+    await getActivityCheckEnvironment().cache?.set(
+      getCacheKey(address, chainSlug, month),
+      JSON.stringify({ ...outcome, timestamp: Date.now() })
+    );
+  } catch {
+    // Not persisting the outcome only costs a re-check later
+  }
+}
+
+function toOutcome(
+  config: MonthConfig,
+  result: CheckerResult,
+  checker: ActivityCheckerKind | null,
+  questId: string | null = null
+): ActivityOutcome {
+  const status: ActivityStatus = result.hasActivity ? 'active' : 'inactive';
+  const score =
+    config.tiers?.length && result.metrics ? scoreActivity(result.metrics, config.tiers) : null;
+  return { ...EMPTY_OUTCOME, status, checker, evidence: result.evidence, questId, score };
+}
+
+function unknownOutcome(error: unknown): ActivityOutcome {
+  return { ...EMPTY_OUTCOME, status: 'unknown', error: toErrorInfo(error) };
 }
 
-function getChainChecker(chainSlug: ChainId) {
-  switch (chainSlug) {
-    case 'pharos-atlantic':
-      return checkPharosActivity;
-    case 'iopn-testnet':
-      return checkIopnActivity;
-    default:
-      return null;
+// Run the chain's checkers in order of preference, falling back to the next one
+// when a checker fails (explorer outage, rate limit, RPC without archive state).
+// If every checker fails the outcome is 'unknown' with the last error.
+// Cancellation is not a failure: it rethrows instead of falling back.
+async function runCheckers(
+  chain: ChainConfig,
+  config: MonthConfig,
+  address: string,
+  startBlock: number,
+  endBlock: number,
+  requestOptions: Pick<CheckerOptions, 'onProgress' | 'signal' | 'priority'>
+): Promise<ActivityOutcome> {
+  const { signal } = requestOptions;
+  const options: CheckerOptions = {
+    ...requestOptions,
+    criteria: config.criteria,
+    collectMetrics: !!config.tiers?.length,
+  };
+  let lastError: unknown = new Error(`No activity checker configured for chain: ${chain.slug}`);
+  for (const kind of chain.activityCheck.checkers) {
+    try {
+      const result = await CHECKERS[kind](chain, address, startBlock, endBlock, options);
+      return toOutcome(config, result, kind);
+    } catch (error) {
+      signal?.throwIfAborted();
+      lastError = error;
+    }
+  }
+  return unknownOutcome(lastError);
+}
+
+// Quest months need specific backends per requirement, so there is no
+// fallback chain: any failure leaves the outcome 'unknown'
+async function runQuestCheck(
+  chain: ChainConfig,
+  config: MonthConfig,
+  address: string,
+  startBlock: number,
+  endBlock: number,
+  requestOptions: Pick<CheckerOptions, 'onProgress' | 'signal' | 'priority'>
+): Promise<ActivityOutcome> {
+  try {
+    const { questId, checker, ...result } = await checkQuests(
+      chain,
+      address,
+      startBlock,
+      endBlock,
+      config.quests ?? [],
+      requestOptions
+    );
+    return toOutcome(config, result, checker, questId);
+  } catch (error) {
+    requestOptions.signal?.throwIfAborted();
+    return unknownOutcome(error);
   }
 }
 
+// Aborting `signal` cancels every request of the check and rejects with the
+// signal's reason; nothing is cached for a cancelled check
 export async function checkActivityForMonth(
   address: string,
   chainSlug: ChainId,
   month: Month,
-  onProgress?: (checked: number, total: number) => void
-): Promise<boolean> {
+  onProgress?: (checked: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<ActivityOutcome> {
   // Check cache first
-  const cached = getCachedResult(address, chainSlug, month);
+  const cached = await getCachedResult(address, chainSlug, month);
   if (cached !== null) {
     return cached;
   }
@@ -57,62 +185,77 @@ export async function checkActivityForMonth(
     throw new Error(`Invalid month: ${month} for chain: ${chainSlug}`);
   }
 
-  const checker = getChainChecker(chainSlug);
-  if (!checker) {
-    return false;
+  // Months with no deployed contract can't be minted, so there's nothing to check
+  if (!config.contractAddress || config.contractAddress === '0x') {
+    return EMPTY_OUTCOME;
   }
 
-  const hasActivity = await checker(address, config.startBlock, config.endBlock, onProgress);
-  setCachedResult(address, chainSlug, month, hasActivity);
-  return hasActivity;
+  const chain = CHAINS[chainSlug];
+  const { startTime, endTime } = getMonthTimeRange(config);
+  const now = Date.now() / 1000;
+  const priority = now >= startTime && now <= endTime ? CURRENT_MONTH_PRIORITY : 0;
+  const requestOptions = { onProgress, signal, priority };
+
+  let range: BlockRange;
+  try {
+    range = await resolveMonthBlockRange(chain, config, signal);
+  } catch (error) {
+    signal?.throwIfAborted();
+    return unknownOutcome(error);
+  }
+
+  const { startBlock, endBlock } = range;
+  const outcome = config.quests?.length
+    ? await runQuestCheck(chain, config, address, startBlock, endBlock, requestOptions)
+    : await runCheckers(chain, config, address, startBlock, endBlock, requestOptions);
+  await setCachedResult(address, config, outcome);
+  return outcome;
 }
 
 export async function checkAllMonthsActivity(
   address: string,
   chainSlug: ChainId,
-  onMonthComplete?: (month: Month, hasActivity: boolean) => void
-): Promise<Record<Month, boolean>> {
-  const results: Record<Month, boolean> = {
-    September: false,
-    October: false,
-    November: false,
-    December: false,
-    January: false,
-    February: false,
-  };
+  onMonthComplete?: (month: Month, outcome: ActivityOutcome) => void,
+  onMonthProgress?: (month: Month, checked: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Partial<Record<Month, ActivityOutcome>>> {
+  const results: Partial<Record<Month, ActivityOutcome>> = {};
 
   const monthConfigs = getMonthConfigsForChain(chainSlug);
 
   // Check months sequentially to avoid overwhelming the explorer API
   for (const config of monthConfigs) {
-    // Skip months with no deployed contract
-    if (!config.contractAddress || config.contractAddress === '0x') {
-      onMonthComplete?.(config.name, false);
-      continue;
-    }
+    signal?.throwIfAborted();
 
-    const hasActivity = await checkActivityForMonth(address, chainSlug, config.name);
-    results[config.name] = hasActivity;
-    onMonthComplete?.(config.name, hasActivity);
+    const outcome = await checkActivityForMonth(
+      address,
+      chainSlug,
+      config.name,
+      (checked, total) => onMonthProgress?.(config.name, checked, total),
+      signal
+    );
+    results[config.name] = outcome;
+    onMonthComplete?.(config.name, outcome);
   }
 
   return results;
 }
 
-export function clearActivityCache(address?: string, chainSlug?: ChainId): void {
-  if (typeof window === 'undefined') return;
+export async function clearActivityCache(address?: string, chainSlug?: ChainId): Promise<void> {
+  const { cache } = getActivityCheckEnvironment();
+  if (!cache) return;
 
   if (address && chainSlug) {
     const monthConfigs = getMonthConfigsForChain(chainSlug);
-    monthConfigs.forEach((config) => {
-      localStorage.removeItem(getCacheKey(address, chainSlug, config.name));
-    });
+    for (const config of monthConfigs) {
+      await cache.delete(getCacheKey(address, chainSlug, config.name));
+    }
   } else {
     // Clear all activity cache
-    Object.keys(localStorage).forEach((key) => {
+    for (const key of await cache.keys()) {
       if (key.startsWith('activity_')) {
-        localStorage.removeItem(key);
+        await cache.delete(key);
       }
-    });
+    }
   }
 }
@@ -0,0 +1,14 @@
+// Entry point for running checks outside Next.js, e.g. from scripts or the
+// check-activity CLI. Configure the environment first: without a baseUrl the
+// checks call the explorers directly, with the API keys in process.env.
+export { checkActivityForMonth, checkAllMonthsActivity, clearActivityCache } from './index';
+export { fetchActivityForMonth } from './api';
+export { ActivityCheckError, toErrorInfo } from './errors';
+export {
+  configureActivityCheck,
+  getActivityCheckEnvironment,
+  type ActivityCheckEnvironment,
+  type CacheStore,
+} from './environment';
+export { createFileCacheStore } from './adapters/file';
+export { createMemoryCacheStore } from './adapters/memory';
@@ -0,0 +1,57 @@
+import {
+  type ActivityCheckerKind,
+  type ChainConfig,
+  type CheckerOptions,
+  type CheckerResult,
+  type QuestRequirement,
+} from '@/types';
+import { checkActivity as checkExplorerActivity } from './explorer';
+import { findWalletEvent } from './rpc';
+
+export interface QuestCheckResult extends CheckerResult {
+  questId: string | null;
+  checker: ActivityCheckerKind | null;
+}
+
+// Check quest requirements in order and stop at the first one the wallet met.
+// Call requirements are matched against the explorer's txlist, event
+// requirements with eth_getLogs on the chain RPC.
+export async function checkQuests(
+  chain: ChainConfig,
+  address: string,
+  startBlock: number,
+  endBlock: number,
+  quests: QuestRequirement[],
+  { onProgress, signal, priority }: Pick<CheckerOptions, 'onProgress' | 'signal' | 'priority'> = {}
+): Promise<QuestCheckResult> {
+  for (const quest of quests) {
+    if (quest.event) {
+      const evidence = await findWalletEvent(
+        chain,
+        address,
+        quest.contract,
+        quest.event.topic,
+        quest.event.walletTopic,
+        startBlock,
+        endBlock,
+        signal
+      );
+      if (evidence) {
+        return { hasActivity: true, evidence, metrics: null, questId: quest.id, checker: 'rpc' };
+      }
+      continue;
+    }
+
+    const result = await checkExplorerActivity(chain, address, startBlock, endBlock, {
+      quest,
+      onProgress,
+      signal,
+      priority,
+    });
+    if (result.hasActivity) {
+      return { ...result, questId: quest.id, checker: 'explorer' };
+    }
+  }
+
+  return { hasActivity: false, evidence: null, metrics: null, questId: null, checker: null };
+}
@@ -0,0 +1,48 @@
+import { type ChainConfig } from '@/types';
+import { getActivityCheckEnvironment } from './environment';
+import { fetchJson } from './http';
+import { fetchCachedResponse, peekCachedResponse } from './responseCache';
+import { scheduleRequest, type ScheduleOptions } from './scheduler';
+
+export type ExplorerParams = Record<string, string | number>;
+
+interface ExplorerRequest<T> {
+  key: string;                   // Identical requests are deduplicated by it
+  run: (signal: AbortSignal) => Promise<T>;
+  cached: () => T | null;        // Answer already held by the response cache
+}
+
+function explorerRequest<T extends object>(chain: ChainConfig, params: ExplorerParams): ExplorerRequest<T> {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    query.set(key, String(value));
+  }
+
+  // Through an app's proxy when there is one (always in browsers), which
+  // caches on its side; otherwise through the response cache the proxy shares
+  const { baseUrl } = getActivityCheckEnvironment();
+  if (baseUrl !== null) {
+    const url = `${baseUrl}/api/explorer?chain=${chain.slug}&${query}`;
+    return { key: url, run: (signal) => fetchJson<T>(url, signal), cached: () => null };
+  }
+  return {
+    key: `${chain.slug}?${query}`,
+    run: async (signal) => (await fetchCachedResponse<T>(chain, query, signal)).data,
+    cached: () => peekCachedResponse<T>(chain, query)?.data ?? null,
+  };
+}
+
+// Send an explorer call through the chain's scheduler and parse its answer
+// there, so rate limits reported in the body pause the queue as well. Cached
+// answers are parsed straight away and take no slot in the queue.
+export async function sendExplorerRequest<T extends object, R>(
+  chain: ChainConfig,
+  params: ExplorerParams,
+  parse: (data: T) => R,
+  options?: ScheduleOptions
+): Promise<R> {
+  const request = explorerRequest<T>(chain, params);
+  const cached = request.cached();
+  if (cached) return parse(cached);
+  return scheduleRequest(chain, request.key, async (signal) => parse(await request.run(signal)), options);
+}
@@ -0,0 +1,171 @@
+import { type ChainConfig, type ChainId } from '@/types';
+import { createLruCache } from '../proxy/cache';
+import { parseBlockNumber } from './dialects';
+import { ActivityCheckError } from './errors';
+import { recordExplorerEvent } from './stats';
+import { fetchFromUpstreams } from './upstreams';
+
+// Shared by server-side checks and the app's /api/explorer proxy, so both
+// reuse each other's upstream answers
+const MAX_CACHED_RESPONSES = 5000;
+// Latest-block answers move with every block
+const LATEST_BLOCK_TTL_MS = 5000;
+// Ranges that may still grow, e.g. the current month
+const OPEN_RANGE_TTL_MS = 30000;
+// Past timestamps and ranges behind the chain head never change
+const CLOSED_TTL_MS = 24 * 3600000;
+// Blocks behind the head before a range counts as settled
+const SETTLED_BLOCKS = 1000;
+
+type ExplorerResponse = { status?: string; message?: string; result?: unknown; items?: unknown };
+
+// HIT (served from cache), COALESCED (shared a concurrent upstream fetch) or MISS
+export type CacheStatus = 'HIT' | 'COALESCED' | 'MISS';
+
+export interface CachedResponse<T> {
+  data: T;
+  upstream: string;              // Host of the upstream that answered
+  ttlMs: number | null;          // null: not cached, e.g. error bodies
+  cache: CacheStatus;
+}
+
+type UpstreamAnswer = Omit<CachedResponse<object>, 'cache'>;
+
+interface InFlightFetch {
+  promise: Promise<UpstreamAnswer>;
+  signal?: AbortSignal;
+}
+
+const responseCache = createLruCache<UpstreamAnswer>(MAX_CACHED_RESPONSES);
+const inFlight = new Map<string, InFlightFetch>();
+// Latest block each chain's explorer reported, to tell settled ranges apart
+const latestBlocks = new Map<ChainId, number>();
+
+// Identical queries share an entry whatever order their parameters came in
+function getCacheKey(chain: ChainConfig, params: URLSearchParams): string {
+  const sorted = new URLSearchParams(params);
+  sorted.sort();
+  return `${chain.slug}?${sorted}`;
+}
+
+function isLatestBlockLookup(params: URLSearchParams): boolean {
+  return params.get('action') === 'getblocknobytime' && Number(params.get('timestamp')) * 1000 >= Date.now();
+}
+
+// How long an answer to the query stays valid
+function getResponseTtl(chain: ChainConfig, params: URLSearchParams): number {
+  if (params.get('action') === 'getblocknobytime') {
+    return isLatestBlockLookup(params) ? LATEST_BLOCK_TTL_MS : CLOSED_TTL_MS;
+  }
+  // A REST API page holds rows below its cursor block
+  const endBlock = params.get(params.get('action') === 'txlist' ? 'endblock' : 'block_number');
+  const latest = latestBlocks.get(chain.slug);
+  return endBlock !== null && latest !== undefined && Number(endBlock) + SETTLED_BLOCKS <= latest
+    ? CLOSED_TTL_MS
+    : OPEN_RANGE_TTL_MS;
+}
+
+// Only answers carrying data are worth keeping; error bodies such as rate
+// limit notices must reach the upstream again next time
+function isCacheableResponse(data: ExplorerResponse): boolean {
+  return (
+    data.status === '1' ||
+    Array.isArray(data.items) ||
+    (Array.isArray(data.result) && /no transactions found/i.test(data.message ?? ''))
+  );
+}
+
+function isRateLimited(data: ExplorerResponse): boolean {
+  const detail = typeof data.result === 'string' ? data.result : (data.message ?? '');
+  return data.status !== '1' && /rate limit/i.test(detail);
+}
+
+async function fetchAndStore(chain: ChainConfig, params: URLSearchParams, key: string, signal?: AbortSignal) {
+  let answer: UpstreamAnswer;
+  try {
+    const { data, upstream } = await fetchFromUpstreams<ExplorerResponse>(chain, params, signal);
+    answer = { data, upstream: new URL(upstream.url).host, ttlMs: null };
+  } catch (error) {
+    if (error instanceof ActivityCheckError && error.code === 'rate_limited') {
+      recordExplorerEvent(chain.slug, 'rate_limited');
+    }
+    throw error;
+  }
+
+  const data = answer.data as ExplorerResponse;
+  if (!isCacheableResponse(data)) {
+    if (isRateLimited(data)) recordExplorerEvent(chain.slug, 'rate_limited');
+    return answer;
+  }
+  if (isLatestBlockLookup(params)) {
+    const block = parseBlockNumber(chain.activityCheck.dialect, data.result);
+    if (block !== null) {
+      latestBlocks.set(chain.slug, Math.max(latestBlocks.get(chain.slug) ?? 0, block));
+    }
+  }
+  const stored = { ...answer, ttlMs: getResponseTtl(chain, params) };
+  responseCache.set(key, stored, stored.ttlMs);
+  return stored;
+}
+
+// Resolves with the promise, or rejects with the signal's reason once it aborts
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// The cached answer to an explorer query, without sending anything
+export function peekCachedResponse<T extends object>(
+  chain: ChainConfig,
+  params: URLSearchParams
+): CachedResponse<T> | null {
+  const cached = responseCache.get(getCacheKey(chain, params));
+  if (!cached) return null;
+  recordExplorerEvent(chain.slug, 'hit');
+  return { ...(cached.value as Omit<CachedResponse<T>, 'cache'>), ttlMs: cached.ttlMs, cache: 'HIT' };
+}
+
+// Answer an explorer query (without API key) from the response cache, by
+// joining an identical upstream fetch in flight, or from the chain's upstreams
+// (see fetchFromUpstreams). Error bodies are returned but never cached.
+// Server-only: reads the key pools.
+export async function fetchCachedResponse<T extends object>(
+  chain: ChainConfig,
+  params: URLSearchParams,
+  signal?: AbortSignal
+): Promise<CachedResponse<T>> {
+  const hit = peekCachedResponse<T>(chain, params);
+  if (hit) return hit;
+
+  const key = getCacheKey(chain, params);
+  const running = inFlight.get(key);
+  if (running) {
+    recordExplorerEvent(chain.slug, 'coalesced');
+    try {
+      const answer = await untilAborted(running.promise, signal);
+      return { ...(answer as Omit<CachedResponse<T>, 'cache'>), cache: 'COALESCED' };
+    } catch (error) {
+      // The fetch was cancelled by whoever started it, not by this caller
+      if (running.signal?.aborted && !signal?.aborted) {
+        return fetchCachedResponse<T>(chain, params, signal);
+      }
+      throw error;
+    }
+  }
+
+  recordExplorerEvent(chain.slug, 'miss');
+  const entry: InFlightFetch = {
+    promise: fetchAndStore(chain, params, key, signal).finally(() => {
+      if (inFlight.get(key) === entry) inFlight.delete(key);
+    }),
+    signal,
+  };
+  inFlight.set(key, entry);
+  const answer = await entry.promise;
+  return { ...(answer as Omit<CachedResponse<T>, 'cache'>), cache: 'MISS' };
+}
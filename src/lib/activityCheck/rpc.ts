@@ -0,0 +1,217 @@
+import { BaseError, createPublicClient, http, numberToHex, pad, type PublicClient } from 'viem';
+import {
+  type ActivityEvidence,
+  type ChainConfig,
+  type ChainId,
+  type CheckerOptions,
+  type CheckerResult,
+} from '@/types';
+import { getActivityCheckEnvironment } from './environment';
+import { ActivityCheckError } from './errors';
+
+const clients = new Map<ChainId, PublicClient>();
+
+// Cancellable checks get their own client so the signal reaches every fetch
+function getClient(chain: ChainConfig, signal?: AbortSignal): PublicClient {
+  const fetchFn = getActivityCheckEnvironment().fetch;
+  if (signal) {
+    return createPublicClient({ transport: http(chain.rpcUrl, { fetchFn, fetchOptions: { signal } }) });
+  }
+
+  let client = clients.get(chain.slug);
+  if (!client) {
+    client = createPublicClient({ transport: http(chain.rpcUrl, { fetchFn }) });
+    clients.set(chain.slug, client);
+  }
+  return client;
+}
+
+// Binary search for the first block in [startBlock, endBlock] whose post-state
+// nonce exceeds nonceBefore, then pick the wallet's transaction from that block.
+// Costs ~log2(range) nonce reads, so it only runs once activity is established.
+async function findEvidence(
+  client: PublicClient,
+  account: `0x${string}`,
+  startBlock: number,
+  endBlock: number,
+  nonceBefore: number
+): Promise<ActivityEvidence | null> {
+  let low = startBlock;
+  let high = endBlock;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const nonce = await client.getTransactionCount({ address: account, blockNumber: BigInt(mid) });
+    if (nonce > nonceBefore) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  const block = await client.getBlock({ blockNumber: BigInt(low), includeTransactions: true });
+  const tx = block.transactions.find((t) => t.from.toLowerCase() === account.toLowerCase());
+  if (!tx) return null;
+  return { hash: tx.hash, blockNumber: low, timestamp: Number(block.timestamp) };
+}
+
+// Detect activity from the account nonce alone: the nonce difference across the
+// range is the number of transactions the wallet sent. Only outgoing transactions
+// bump the nonce (reverted ones included), so without outgoingOnly criteria an
+// unchanged nonce proves nothing and is raised instead of answering inactive.
+// Reading historical state requires the RPC node to serve archive data.
+// Metrics for scoring are never reported.
+export async function checkActivity(
+  chain: ChainConfig,
+  address: string,
+  startBlock: number,
+  endBlock: number,
+  { criteria, quest, onProgress, signal }: CheckerOptions = {}
+): Promise<CheckerResult> {
+  // A nonce can't tell reverted transactions apart, say which day they were
+  // sent or which contract they called
+  if (criteria?.successOnly || (criteria?.minActiveDays ?? 0) > 1 || quest) {
+    throw new ActivityCheckError(
+      'unsupported_criteria',
+      'Success-only, active-day and contract-call rules need an explorer'
+    );
+  }
+
+  const client = getClient(chain, signal);
+
+  try {
+    // Cap endBlock at the actual latest block, the node rejects future block tags
+    const latestBlock = Number(await client.getBlockNumber());
+    endBlock = Math.min(endBlock, latestBlock);
+
+    // Month hasn't started yet
+    if (startBlock > endBlock) {
+      return { hasActivity: false, evidence: null, metrics: null };
+    }
+
+    const account = address as `0x${string}`;
+    const [nonceBefore, nonceAfter] = await Promise.all([
+      startBlock > 0
+        ? client.getTransactionCount({ address: account, blockNumber: BigInt(startBlock - 1) })
+        : Promise.resolve(0),
+      client.getTransactionCount({ address: account, blockNumber: BigInt(endBlock) }),
+    ]);
+
+    onProgress?.(1, 1);
+    if (nonceAfter - nonceBefore < Math.max(criteria?.minTxCount ?? 1, 1)) {
+      if (!criteria?.outgoingOnly) {
+        throw new ActivityCheckError('unsupported_criteria', 'Incoming transactions need an explorer');
+      }
+      return { hasActivity: false, evidence: null, metrics: null };
+    }
+
+    // Activity is already proven, a failed evidence lookup must not undo that
+    const evidence = await findEvidence(client, account, startBlock, endBlock, nonceBefore).catch(
+      () => null
+    );
+    signal?.throwIfAborted();
+    return { hasActivity: true, evidence, metrics: null };
+  } catch (error) {
+    signal?.throwIfAborted();
+    if (error instanceof ActivityCheckError) throw error;
+    const message = error instanceof BaseError ? error.shortMessage : 'RPC request failed';
+    throw new ActivityCheckError('rpc_error', message);
+  }
+}
+
+// Binary search over block timestamps for the first block at or after (or the
+// last block at or before) a unix timestamp in seconds. Returns null when no
+// block satisfies the bound.
+export async function findBlockByTime(
+  chain: ChainConfig,
+  timestamp: number,
+  closest: 'before' | 'after',
+  signal?: AbortSignal
+): Promise<number | null> {
+  const client = getClient(chain, signal);
+  const target = BigInt(timestamp);
+  const getTimestamp = async (blockNumber: number) =>
+    (await client.getBlock({ blockNumber: BigInt(blockNumber) })).timestamp;
+
+  let low = 0;
+  let high = Number(await client.getBlockNumber());
+
+  if (closest === 'after') {
+    if ((await getTimestamp(high)) < target) return null;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if ((await getTimestamp(mid)) < target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  if ((await getTimestamp(low)) > target) return null;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if ((await getTimestamp(mid)) > target) {
+      high = mid - 1;
+    } else {
+      low = mid;
+    }
+  }
+  return low;
+}
+
+interface RpcLog {
+  blockNumber: `0x${string}`;
+  transactionHash: `0x${string}`;
+}
+
+// Find the first log in the range where `contract` emitted the event with the
+// wallet in the given indexed position. eth_getLogs is filtered by the node, so
+// even busy contracts only return the wallet's own logs; the range is split
+// with the chain's chunk size to stay within provider block-range limits.
+export async function findWalletEvent(
+  chain: ChainConfig,
+  address: string,
+  contract: `0x${string}`,
+  eventTopic: `0x${string}`,
+  walletTopic: 1 | 2 | 3,
+  startBlock: number,
+  endBlock: number,
+  signal?: AbortSignal
+): Promise<ActivityEvidence | null> {
+  const client = getClient(chain, signal);
+  const { chunkSize } = chain.activityCheck;
+
+  const topics: Array<`0x${string}` | null> = [eventTopic, null, null, null];
+  topics[walletTopic] = pad(address as `0x${string}`).toLowerCase() as `0x${string}`;
+
+  try {
+    for (let fromBlock = startBlock; fromBlock <= endBlock; fromBlock += chunkSize) {
+      const toBlock = Math.min(fromBlock + chunkSize - 1, endBlock);
+      const logs = (await client.request({
+        method: 'eth_getLogs',
+        params: [
+          {
+            address: contract,
+            topics: topics.slice(0, walletTopic + 1),
+            fromBlock: numberToHex(fromBlock),
+            toBlock: numberToHex(toBlock),
+          },
+        ],
+      })) as RpcLog[];
+
+      const log = logs[0];
+      if (log) {
+        const blockNumber = parseInt(log.blockNumber, 16);
+        const block = await client.getBlock({ blockNumber: BigInt(blockNumber) });
+        return { hash: log.transactionHash, blockNumber, timestamp: Number(block.timestamp) };
+      }
+    }
+  } catch (error) {
+    signal?.throwIfAborted();
+    const message = error instanceof BaseError ? error.shortMessage : 'RPC request failed';
+    throw new ActivityCheckError('rpc_error', message);
+  }
+
+  return null;
+}
@@ -0,0 +1,201 @@
+import { type ChainConfig, type ChainId } from '@/types';
+import { getActivityCheckEnvironment } from './environment';
+import { ActivityCheckError } from './errors';
+
+// Pause after a 429 that didn't say how long to back off
+const DEFAULT_PAUSE_MS = 5000;
+
+interface Waiter {
+  priority: number;
+  seq: number;
+  resolve: () => void;
+}
+
+// Token bucket plus concurrency cap for one chain's explorer requests
+interface ChainQueue {
+  tokens: number;
+  refilledAt: number;
+  active: number;
+  waiting: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+export interface ScheduleOptions {
+  priority?: number;
+  signal?: AbortSignal;
+}
+
+const queues = new Map<ChainId, ChainQueue>();
+const pausedUntil = new Map<ChainId, number>();
+const inFlight = new Map<string, SharedRequest>();
+let nextSeq = 0;
+
+function getQueue(chain: ChainConfig): ChainQueue {
+  let queue = queues.get(chain.slug);
+  if (!queue) {
+    queue = {
+      tokens: chain.activityCheck.maxConcurrent,
+      refilledAt: Date.now(),
+      active: 0,
+      waiting: [],
+      timer: null,
+    };
+    queues.set(chain.slug, queue);
+  }
+  return queue;
+}
+
+// Start as many waiting requests as the chain's slots and tokens allow, highest
+// priority first, then wake up again once the next token or pause runs out
+function pump(chain: ChainConfig): void {
+  const queue = getQueue(chain);
+  const { maxConcurrent, requestsPerMinute, proxyRequestsPerMinute } = chain.activityCheck;
+  // Requests through an app's proxy get its per-client budget
+  const msPerToken =
+    60000 / (getActivityCheckEnvironment().baseUrl !== null ? proxyRequestsPerMinute : requestsPerMinute);
+
+  const now = Date.now();
+  queue.tokens = Math.min(maxConcurrent, queue.tokens + (now - queue.refilledAt) / msPerToken);
+  queue.refilledAt = now;
+
+  const resumeAt = pausedUntil.get(chain.slug) ?? 0;
+  if (now < resumeAt) {
+    schedulePump(chain, resumeAt - now);
+    return;
+  }
+
+  queue.waiting.sort((a, b) => b.priority - a.priority || a.seq - b.seq);
+  while (queue.waiting.length > 0 && queue.active < maxConcurrent && queue.tokens >= 1) {
+    const waiter = queue.waiting.shift()!;
+    queue.tokens -= 1;
+    queue.active += 1;
+    waiter.resolve();
+  }
+
+  if (queue.waiting.length > 0 && queue.active < maxConcurrent) {
+    schedulePump(chain, (1 - queue.tokens) * msPerToken);
+  }
+}
+
+function schedulePump(chain: ChainConfig, delayMs: number): void {
+  const queue = getQueue(chain);
+  if (queue.timer) return;
+  queue.timer = setTimeout(() => {
+    queue.timer = null;
+    pump(chain);
+  }, delayMs);
+}
+
+// Wait for a slot and a token on the chain
+function acquire(chain: ChainConfig, priority: number, signal: AbortSignal): Promise<void> {
+  const queue = getQueue(chain);
+  return new Promise((resolve, reject) => {
+    const waiter: Waiter = {
+      priority,
+      seq: nextSeq++,
+      resolve: () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      },
+    };
+    const onAbort = () => {
+      queue.waiting = queue.waiting.filter((w) => w !== waiter);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    queue.waiting.push(waiter);
+    pump(chain);
+  });
+}
+
+function release(chain: ChainConfig): void {
+  getQueue(chain).active -= 1;
+  pump(chain);
+}
+
+async function runRequest<T>(
+  chain: ChainConfig,
+  task: (signal: AbortSignal) => Promise<T>,
+  priority: number,
+  signal: AbortSignal
+): Promise<T> {
+  await acquire(chain, priority, signal);
+  try {
+    return await task(signal);
+  } catch (error) {
+    if (error instanceof ActivityCheckError && error.code === 'rate_limited') {
+      const resumeAt = Date.now() + (error.retryAfterMs ?? DEFAULT_PAUSE_MS);
+      pausedUntil.set(chain.slug, Math.max(pausedUntil.get(chain.slug) ?? 0, resumeAt));
+      getQueue(chain).tokens = 0;
+    }
+    throw error;
+  } finally {
+    release(chain);
+  }
+}
+
+// Follow a shared request until it settles or this caller's signal aborts. The
+// underlying request is only cancelled once every caller has given up on it.
+function subscribe<T>(shared: SharedRequest, signal?: AbortSignal): Promise<T> {
+  shared.subscribers += 1;
+  const promise = shared.promise as Promise<T>;
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.subscribers -= 1;
+      if (shared.subscribers === 0) {
+        shared.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// How busy the chain's queue is, for the health report
+export function getQueueState(chain: ChainConfig): { waiting: number; pausedForMs: number } {
+  return {
+    waiting: queues.get(chain.slug)?.waiting.length ?? 0,
+    pausedForMs: Math.max((pausedUntil.get(chain.slug) ?? 0) - Date.now(), 0),
+  };
+}
+
+// Run every explorer request through one queue per chain: requests share the
+// chain's token bucket and concurrency cap, a 429 pauses the chain for
+// Retry-After, higher priorities jump the queue, and
+// identical requests already in flight are joined instead of sent again.
+export function scheduleRequest<T>(
+  chain: ChainConfig,
+  key: string,
+  task: (signal: AbortSignal) => Promise<T>,
+  { priority = 0, signal }: ScheduleOptions = {}
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  let shared = inFlight.get(key);
+  if (!shared || shared.controller.signal.aborted) {
+    const controller = new AbortController();
+    const entry: SharedRequest = {
+      promise: runRequest(chain, task, priority, controller.signal).finally(() => {
+        if (inFlight.get(key) === entry) inFlight.delete(key);
+      }),
+      controller,
+      subscribers: 0,
+    };
+    // Rejections are delivered to subscribers, not to this bookkeeping chain
+    entry.promise.catch(() => {});
+    inFlight.set(key, entry);
+    shared = entry;
+  }
+  return subscribe<T>(shared, signal);
+}
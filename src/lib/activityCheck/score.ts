@@ -0,0 +1,42 @@
+import { type ActivityMetrics, type ActivityScore, type ActivityTier, type ActivityTransaction } from '@/types';
+
+// Points per unit of each metric
+const TX_POINTS = 1;
+const ACTIVE_DAY_POINTS = 5;
+const CONTRACT_POINTS = 3;
+
+export function computeMetrics(transactions: ActivityTransaction[]): ActivityMetrics {
+  const days = new Set(transactions.map((tx) => new Date(tx.timestamp * 1000).toISOString().slice(0, 10)));
+  // Plain transfers carry no calldata, so only count recipients that were called
+  const contracts = new Set(
+    transactions.filter((tx) => tx.to && tx.input !== '0x').map((tx) => tx.to.toLowerCase())
+  );
+  return {
+    txCount: transactions.length,
+    activeDays: days.size,
+    distinctContracts: contracts.size,
+  };
+}
+
+// Map metrics to a score and the highest tier it reaches
+export function scoreActivity(metrics: ActivityMetrics, tiers: ActivityTier[]): ActivityScore {
+  const score =
+    metrics.txCount * TX_POINTS +
+    metrics.activeDays * ACTIVE_DAY_POINTS +
+    metrics.distinctContracts * CONTRACT_POINTS;
+
+  let tier: number | null = null;
+  for (let i = 0; i < tiers.length; i++) {
+    if (score >= tiers[i].minScore) tier = i;
+  }
+
+  const nextIndex = tier === null ? 0 : tier + 1;
+  const nextTier = nextIndex < tiers.length ? nextIndex : null;
+  return {
+    metrics,
+    score,
+    tier,
+    nextTier,
+    pointsToNextTier: nextTier === null ? null : tiers[nextTier].minScore - score,
+  };
+}
@@ -0,0 +1,55 @@
+import { type ActivityOutcome, type ChainId, type Month } from '@/types';
+import { activityCheckDuration, activityChecks } from '../metrics';
+import { getMonthConfig } from '../contracts';
+import { createLruCache } from '../proxy/cache';
+import { checkActivityForMonth, isConclusiveOutcome } from './index';
+
+// Conclusive outcomes are reused for an hour, like the browser cache they replace
+const CACHE_TTL_MS = 3600000;
+const MAX_CACHED_OUTCOMES = 10000;
+
+const cache = createLruCache<ActivityOutcome>(MAX_CACHED_OUTCOMES);
+
+export interface ServerCheckOptions {
+  fresh?: boolean;               // Skip the cached outcome
+  onProgress?: (checked: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+function getCacheKey(chainSlug: ChainId, address: string, month: Month): string {
+  return `${chainSlug}:${address.toLowerCase()}:${month}`;
+}
+
+// Check a month for the app's API routes (/api/activity, /api/mint-signature),
+// sharing their cache of conclusive outcomes and recording check metrics
+export async function checkMonthOnServer(
+  address: string,
+  chainSlug: ChainId,
+  month: Month,
+  { fresh, onProgress, signal }: ServerCheckOptions = {}
+): Promise<ActivityOutcome> {
+  const key = getCacheKey(chainSlug, address, month);
+  const cached = fresh ? null : cache.get(key);
+  if (cached) return cached.value;
+
+  const startedAt = Date.now();
+  const record = (result: string) => {
+    const labels = { chain: chainSlug, month, outcome: result };
+    activityChecks.inc(labels);
+    activityCheckDuration.observe(labels, (Date.now() - startedAt) / 1000);
+  };
+
+  let outcome: ActivityOutcome;
+  try {
+    outcome = await checkActivityForMonth(address, chainSlug, month, onProgress, signal);
+  } catch (error) {
+    // Checks the client walked away from say nothing about the chain
+    if (!signal?.aborted) record('error');
+    throw error;
+  }
+  record(outcome.status);
+  if (isConclusiveOutcome(getMonthConfig(chainSlug, month), outcome)) {
+    cache.set(key, outcome, CACHE_TTL_MS);
+  }
+  return outcome;
+}
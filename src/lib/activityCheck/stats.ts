@@ -0,0 +1,67 @@
+import { type ChainId } from '@/types';
+
+// Recent explorer traffic per chain, from server-side checks and the app's
+// proxy alike, in one-minute buckets over the last five minutes, for the
+// health report
+const BUCKET_MS = 60000;
+const WINDOW_BUCKETS = 5;
+
+// - hit, coalesced, miss: how the response cache answered a lookup
+// - refused: a proxy client over its rate limit, never looked up
+// - rate_limited: an upstream refused a lookup that missed the cache
+export type ExplorerEvent = 'hit' | 'coalesced' | 'miss' | 'refused' | 'rate_limited';
+
+type Counts = Record<ExplorerEvent, number>;
+
+interface Bucket {
+  start: number;
+  counts: Counts;
+}
+
+export interface ExplorerStats {
+  requests: number;
+  cacheHitRate: number | null;
+  throttledRate: number | null;
+}
+
+const buckets = new Map<ChainId, Bucket[]>();
+
+function emptyCounts(): Counts {
+  return { hit: 0, coalesced: 0, miss: 0, refused: 0, rate_limited: 0 };
+}
+
+function recentBuckets(chainSlug: ChainId): Bucket[] {
+  const oldest = Math.floor(Date.now() / BUCKET_MS) * BUCKET_MS - (WINDOW_BUCKETS - 1) * BUCKET_MS;
+  const recent = (buckets.get(chainSlug) ?? []).filter((bucket) => bucket.start >= oldest);
+  buckets.set(chainSlug, recent);
+  return recent;
+}
+
+export function recordExplorerEvent(chainSlug: ChainId, event: ExplorerEvent): void {
+  const start = Math.floor(Date.now() / BUCKET_MS) * BUCKET_MS;
+  const recent = recentBuckets(chainSlug);
+  let bucket = recent[recent.length - 1];
+  if (!bucket || bucket.start !== start) {
+    bucket = { start, counts: emptyCounts() };
+    recent.push(bucket);
+  }
+  bucket.counts[event] += 1;
+}
+
+// Rates are null while there was nothing to compute them from
+export function getExplorerStats(chainSlug: ChainId): ExplorerStats {
+  const totals = emptyCounts();
+  for (const bucket of recentBuckets(chainSlug)) {
+    for (const event of Object.keys(totals) as ExplorerEvent[]) {
+      totals[event] += bucket.counts[event];
+    }
+  }
+
+  const lookups = totals.hit + totals.coalesced + totals.miss;
+  const requests = lookups + totals.refused;
+  return {
+    requests,
+    cacheHitRate: lookups > 0 ? (totals.hit + totals.coalesced) / lookups : null,
+    throttledRate: requests > 0 ? (totals.refused + totals.rate_limited) / requests : null,
+  };
+}
@@ -0,0 +1,224 @@
+import { type ChainConfig, type ExplorerUpstream } from '@/types';
+import { API_KEY_ENV, getApiKeys } from './apiKeys';
+import { buildRequestUrl, formatBlockNumber, isRestRequest, parseBlockNumber } from './dialects';
+import { ActivityCheckError } from './errors';
+import { fetchJson } from './http';
+import { actionLabel, upstreamDuration, upstreamRequests } from '../metrics';
+
+// Consecutive failures before an upstream is taken out of rotation
+const FAILURE_THRESHOLD = 3;
+// How long it stays out before a single trial request may go through again
+const COOLDOWN_MS = 30000;
+
+// Errors reported in the body that say nothing about the request itself and
+// might not happen on another upstream or with another key
+const UPSTREAM_FAILURE_PATTERN = /rate limit|invalid api key|missing api key|quota/i;
+
+type ExplorerResponse = { status?: string; message?: string; result?: unknown };
+
+interface UpstreamHealth {
+  failures: number;
+  openUntil: number;             // Circuit open (upstream skipped) until then
+  trialInFlight: boolean;        // Half-open: one request is probing the upstream
+  nextKey: number;               // Round-robin position in the key pool
+}
+
+// Keyed by upstreamId: one multichain endpoint is tracked per chain
+const health = new Map<string, UpstreamHealth>();
+
+function upstreamId(upstream: ExplorerUpstream): string {
+  return upstream.chainId === undefined ? upstream.url : `${upstream.url}#${upstream.chainId}`;
+}
+
+// Upstreams tried for the chain, in order of preference
+export function getUpstreams(chain: ChainConfig): ExplorerUpstream[] {
+  return (
+    chain.activityCheck.upstreams ?? [
+      {
+        url: chain.explorerApiUrl,
+        dialect: chain.activityCheck.dialect,
+        apiKeyEnv: API_KEY_ENV[chain.slug],
+      },
+    ]
+  );
+}
+
+// Upstreams currently skipped because their circuit is open
+export function getOpenCircuits(chain: ChainConfig): ExplorerUpstream[] {
+  return getUpstreams(chain).filter((upstream) => {
+    const state = health.get(upstreamId(upstream));
+    return state !== undefined && state.failures >= FAILURE_THRESHOLD && Date.now() < state.openUntil;
+  });
+}
+
+function getHealth(upstream: ExplorerUpstream): UpstreamHealth {
+  let state = health.get(upstreamId(upstream));
+  if (!state) {
+    state = { failures: 0, openUntil: 0, trialInFlight: false, nextKey: 0 };
+    health.set(upstreamId(upstream), state);
+  }
+  return state;
+}
+
+// Closed circuits always pass; an open one lets a single trial through once
+// its cooldown is over
+function acquire(state: UpstreamHealth): boolean {
+  if (state.failures < FAILURE_THRESHOLD) return true;
+  if (Date.now() < state.openUntil || state.trialInFlight) return false;
+  state.trialInFlight = true;
+  return true;
+}
+
+function recordSuccess(state: UpstreamHealth): void {
+  state.failures = 0;
+  state.trialInFlight = false;
+}
+
+function recordFailure(state: UpstreamHealth): void {
+  state.failures += 1;
+  state.trialInFlight = false;
+  if (state.failures >= FAILURE_THRESHOLD) {
+    state.openUntil = Date.now() + COOLDOWN_MS;
+  }
+}
+
+function buildUpstreamUrl(upstream: ExplorerUpstream, state: UpstreamHealth, params: URLSearchParams): string {
+  const query = new URLSearchParams(params);
+  if (upstream.chainId !== undefined) {
+    query.set('chainid', String(upstream.chainId));
+  }
+  const keys = getApiKeys(upstream.apiKeyEnv);
+  if (keys.length > 0) {
+    query.set('apikey', keys[state.nextKey++ % keys.length]);
+  }
+  return buildRequestUrl(upstream.url, query);
+}
+
+function recordRequest(
+  chain: ChainConfig,
+  params: URLSearchParams,
+  upstream: ExplorerUpstream,
+  outcome: string,
+  startedAt: number
+): void {
+  const labels = {
+    chain: chain.slug,
+    action: actionLabel(params.get('action')),
+    upstream: new URL(upstream.url).host,
+    outcome,
+  };
+  upstreamRequests.inc(labels);
+  upstreamDuration.observe(labels, (Date.now() - startedAt) / 1000);
+}
+
+// Block lookups are answered in the chain's dialect whichever upstream served
+// them, so callers never see the difference
+function normalizeResponse(chain: ChainConfig, upstream: ExplorerUpstream, data: ExplorerResponse): ExplorerResponse {
+  if (upstream.dialect === chain.activityCheck.dialect || data.status !== '1') {
+    return data;
+  }
+  const block = parseBlockNumber(upstream.dialect, data.result);
+  return block === null ? data : { ...data, result: formatBlockNumber(chain.activityCheck.dialect, block) };
+}
+
+// Send an explorer query (without API key) to the chain's upstreams in order,
+// rotating through each one's keys. Network errors, HTTP failures and
+// key/quota errors in the body count against an upstream and move on to the
+// next; after FAILURE_THRESHOLD in a row its circuit opens for COOLDOWN_MS.
+// When every upstream failed, the last error body is returned so callers can
+// interpret it, or the last error thrown. REST API calls only go to upstreams
+// of the blockscout-v2 dialect. Server-only: reads the key pools.
+export function fetchFromUpstreams<T extends object = ExplorerResponse>(
+  chain: ChainConfig,
+  params: URLSearchParams,
+  signal?: AbortSignal
+): Promise<{ data: T; upstream: ExplorerUpstream }> {
+  return requestUpstreams<T>(chain, params, signal, true);
+}
+
+// Like fetchFromUpstreams, but for health checks: open circuits are tried too,
+// and failures don't take an upstream out of rotation for real requests
+export function probeUpstreams<T extends object = ExplorerResponse>(
+  chain: ChainConfig,
+  params: URLSearchParams,
+  signal?: AbortSignal
+): Promise<{ data: T; upstream: ExplorerUpstream }> {
+  return requestUpstreams<T>(chain, params, signal, false);
+}
+
+async function requestUpstreams<T extends object>(
+  chain: ChainConfig,
+  params: URLSearchParams,
+  signal: AbortSignal | undefined,
+  trackHealth: boolean
+): Promise<{ data: T; upstream: ExplorerUpstream }> {
+  const isBlockLookup = params.get('action') === 'getblocknobytime';
+  let lastResponse: { data: T; upstream: ExplorerUpstream } | null = null;
+  let lastError: unknown = null;
+  let reopensAt = Infinity;
+
+  const upstreams = isRestRequest(params)
+    ? getUpstreams(chain).filter((upstream) => upstream.dialect === 'blockscout-v2')
+    : getUpstreams(chain);
+  if (upstreams.length === 0) {
+    throw new ActivityCheckError('invalid_response', `${chain.name} has no Blockscout REST API upstream`);
+  }
+
+  for (const upstream of upstreams) {
+    // Untracked requests work on a throwaway copy of the circuit state
+    const state = trackHealth
+      ? getHealth(upstream)
+      : { ...getHealth(upstream), failures: 0, trialInFlight: false };
+    if (!acquire(state)) {
+      reopensAt = Math.min(reopensAt, state.openUntil);
+      continue;
+    }
+
+    const startedAt = Date.now();
+    let data: T;
+    try {
+      data = await fetchJson<T>(buildUpstreamUrl(upstream, state, params), signal);
+    } catch (error) {
+      // A cancelled request says nothing about the upstream
+      if (signal?.aborted) {
+        state.trialInFlight = false;
+        throw error;
+      }
+      recordFailure(state);
+      recordRequest(
+        chain,
+        params,
+        upstream,
+        error instanceof ActivityCheckError ? error.code : 'unknown_error',
+        startedAt
+      );
+      lastError = error;
+      continue;
+    }
+
+    // REST API answers carry none of these fields and errors come as HTTP statuses
+    const { status, message, result } = data as ExplorerResponse;
+    const detail = typeof result === 'string' && result ? result : (message ?? '');
+    if (status !== '1' && UPSTREAM_FAILURE_PATTERN.test(detail)) {
+      recordFailure(state);
+      recordRequest(chain, params, upstream, 'rejected', startedAt);
+      lastResponse = { data, upstream };
+      continue;
+    }
+
+    recordSuccess(state);
+    recordRequest(chain, params, upstream, 'success', startedAt);
+    return { data: (isBlockLookup ? normalizeResponse(chain, upstream, data) : data) as T, upstream };
+  }
+
+  if (lastResponse) return lastResponse;
+  if (lastError) throw lastError;
+  // Circuits waiting on a trial request have reopened already, so callers
+  // back off as usual instead of retrying right away
+  const untilReopen = reopensAt - Date.now();
+  throw new ActivityCheckError(
+    'upstream_error',
+    `All explorer upstreams for ${chain.name} are unavailable`,
+    Number.isFinite(untilReopen) && untilReopen > 0 ? untilReopen : null
+  );
+}
@@ -1,6 +1,22 @@
-import { type ChainConfig, type ChainId } from '@/types';
+import { type ChainConfig, type ChainId, type ExplorerUpstream } from '@/types';
+
+// Etherscan V2 serves every chain it indexes from one endpoint, selected by the
+// chainid parameter, with a single API key
+const ETHERSCAN_V2_API_URL = process.env.ETHERSCAN_V2_API_URL || 'https://api.etherscan.io/v2/api';
+// The key's 5 requests per second, split between the chains using it
+const ETHERSCAN_V2_REQUESTS_PER_MINUTE = 100;
+
+// Local chains are only offered while developing
+const IS_DEVELOPMENT = process.env.NODE_ENV === 'development';
+
+function etherscanV2Upstream(chainId: number): ExplorerUpstream {
+  return { url: ETHERSCAN_V2_API_URL, dialect: 'etherscan', apiKeyEnv: 'ETHERSCAN_API_KEY', chainId };
+}
 
 // Chain registry - add new chains here
+// Explorer APIs are only called server-side, so their URLs can be overridden
+// through PHAROS_EXPLORER_API_URL, IOPN_EXPLORER_API_URL and ETHERSCAN_V2_API_URL,
+// e.g. to point them at `npm run mock:explorer`
 export const CHAINS: Record<ChainId, ChainConfig> = {
   'pharos-atlantic': {
     id: 688689,
@@ -14,7 +30,16 @@ export const CHAINS: Record<ChainId, ChainConfig> = {
     },
     rpcUrl: process.env.NEXT_PUBLIC_PHAROS_RPC_URL || 'https://atlantic.dplabs-internal.com',
     explorerUrl: 'https://pharos-testnet.socialscan.io',
-    explorerApiUrl: 'https://api.socialscan.io/pharos-atlantic-testnet/v1/developer/api',
+    explorerApiUrl:
+      process.env.PHAROS_EXPLORER_API_URL || 'https://api.socialscan.io/pharos-atlantic-testnet/v1/developer/api',
+    activityCheck: {
+      checkers: ['explorer', 'rpc'],
+      dialect: 'etherscan',
+      chunkSize: 100000,
+      maxConcurrent: 5,
+      requestsPerMinute: 300,
+      proxyRequestsPerMinute: 60,
+    },
     iconColor: 'from-blue-500 to-purple-600',
     isTestnet: true,
     isActive: true,
@@ -29,12 +54,21 @@ export const CHAINS: Record<ChainId, ChainConfig> = {
       symbol: 'ETH',
       decimals: 18,
     },
-    rpcUrl: process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL || 'https://rpc.sepolia.org',
+    rpcUrl: process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com',
     explorerUrl: 'https://sepolia.etherscan.io',
-    explorerApiUrl: 'https://api-sepolia.etherscan.io/api',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    activityCheck: {
+      checkers: ['explorer', 'rpc'],
+      dialect: 'etherscan',
+      chunkSize: 1000000,
+      maxConcurrent: 2,
+      requestsPerMinute: ETHERSCAN_V2_REQUESTS_PER_MINUTE,
+      proxyRequestsPerMinute: 30,
+      upstreams: [etherscanV2Upstream(11155111)],
+    },
     iconColor: 'from-gray-500 to-blue-500',
     isTestnet: true,
-    isActive: false, // Not yet supported
+    isActive: true,
   },
   'base-sepolia': {
     id: 84532,
@@ -48,10 +82,19 @@ export const CHAINS: Record<ChainId, ChainConfig> = {
     },
     rpcUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org',
     explorerUrl: 'https://sepolia.basescan.org',
-    explorerApiUrl: 'https://api-sepolia.basescan.org/api',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    activityCheck: {
+      checkers: ['explorer', 'rpc'],
+      dialect: 'etherscan',
+      chunkSize: 2000000,
+      maxConcurrent: 2,
+      requestsPerMinute: ETHERSCAN_V2_REQUESTS_PER_MINUTE,
+      proxyRequestsPerMinute: 30,
+      upstreams: [etherscanV2Upstream(84532)],
+    },
     iconColor: 'from-blue-600 to-blue-400',
     isTestnet: true,
-    isActive: false, // Not yet supported
+    isActive: true,
   },
   'arbitrum-sepolia': {
     id: 421614,
@@ -65,10 +108,19 @@ export const CHAINS: Record<ChainId, ChainConfig> = {
     },
     rpcUrl: process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_RPC_URL || 'https://sepolia-rollup.arbitrum.io/rpc',
     explorerUrl: 'https://sepolia.arbiscan.io',
-    explorerApiUrl: 'https://api-sepolia.arbiscan.io/api',
+    explorerApiUrl: ETHERSCAN_V2_API_URL,
+    activityCheck: {
+      checkers: ['explorer', 'rpc'],
+      dialect: 'etherscan',
+      chunkSize: 20000000,
+      maxConcurrent: 2,
+      requestsPerMinute: ETHERSCAN_V2_REQUESTS_PER_MINUTE,
+      proxyRequestsPerMinute: 30,
+      upstreams: [etherscanV2Upstream(421614)],
+    },
     iconColor: 'from-blue-400 to-cyan-400',
     isTestnet: true,
-    isActive: false, // Not yet supported
+    isActive: true,
   },
   'iopn-testnet': {
     id: 984,
@@ -82,16 +134,52 @@ export const CHAINS: Record<ChainId, ChainConfig> = {
     },
     rpcUrl: process.env.NEXT_PUBLIC_IOPN_RPC_URL || 'https://testnet-rpc.iopn.tech',
     explorerUrl: 'https://testnet.iopn.tech',
-    explorerApiUrl: 'https://testnet.iopn.tech/api',
+    explorerApiUrl: process.env.IOPN_EXPLORER_API_URL || 'https://testnet.iopn.tech/api',
+    activityCheck: {
+      checkers: ['explorer', 'rpc'],
+      dialect: 'blockscout-v2',
+      chunkSize: 500000,
+      maxConcurrent: 2,
+      requestsPerMinute: 25,
+      proxyRequestsPerMinute: 30,
+    },
     iconColor: 'from-emerald-500 to-teal-400',
     isTestnet: true,
     isActive: true,
   },
+  // `npx hardhat node`, with contracts from `npm run deploy:localhost`. There is
+  // no explorer, so activity is checked over RPC alone
+  localhost: {
+    id: 31337,
+    slug: 'localhost',
+    name: 'Hardhat Localhost',
+    shortName: 'Localhost',
+    nativeCurrency: {
+      name: 'Ether',
+      symbol: 'ETH',
+      decimals: 18,
+    },
+    rpcUrl: process.env.NEXT_PUBLIC_LOCALHOST_RPC_URL || 'http://127.0.0.1:8545',
+    explorerUrl: '',
+    explorerApiUrl: '',
+    activityCheck: {
+      checkers: ['rpc'],
+      dialect: 'etherscan',
+      chunkSize: 10000,
+      maxConcurrent: 5,
+      requestsPerMinute: 6000,
+      proxyRequestsPerMinute: 600,
+    },
+    iconColor: 'from-yellow-400 to-amber-600',
+    isTestnet: true,
+    isActive: IS_DEVELOPMENT,
+    isDevelopmentOnly: true,
+  },
 };
 
-// Get all chains
+// Get all chains, leaving out development-only ones in production
 export function getAllChains(): ChainConfig[] {
-  return Object.values(CHAINS);
+  return Object.values(CHAINS).filter((chain) => chain.isActive || !chain.isDevelopmentOnly);
 }
 
 // Get only active chains
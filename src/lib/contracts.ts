@@ -8,6 +8,16 @@ export const ACTIVITY_NFT_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { internalType: 'uint256', name: 'tier', type: 'uint256' },
+      { internalType: 'bytes', name: 'signature', type: 'bytes' },
+    ],
+    name: 'mintWithTier',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
   {
     inputs: [{ internalType: 'address', name: '', type: 'address' }],
     name: 'hasMinted',
@@ -70,7 +80,8 @@ export const ACTIVITY_NFT_ABI = [
 ] as const;
 
 // Per-chain month configurations
-// Block ranges calculated: ~108,000 blocks/day for Pharos
+// startBlock/endBlock are estimates (~108,000 blocks/day for Pharos). Activity checks
+// resolve the exact range from the month's UTC dates and only fall back to these.
 const PHAROS_ATLANTIC_MONTHS: MonthConfig[] = [
   {
     name: 'October',
@@ -105,7 +116,7 @@ const PHAROS_ATLANTIC_MONTHS: MonthConfig[] = [
     chainSlug: 'pharos-atlantic',
     contractAddress: (process.env.NEXT_PUBLIC_PHAROS_JANUARY_ADDRESS || '0x') as `0x${string}`,
     startBlock: 8291373,
-    endBlock: 12326699,
+    endBlock: 12342699,
     metadataURI: 'ipfs://bafkreif5ccgpnjsp3hfeympzlapndiv6w57jl22yn4gj4rffjfkodkdzyq',
   },
   {
@@ -120,7 +131,7 @@ const PHAROS_ATLANTIC_MONTHS: MonthConfig[] = [
 ];
 
 // IOPN Testnet month configurations
-// Uses timestamp-based activity verification (block ranges are wide)
+// Block ranges are fallback estimates, see resolveMonthBlockRange
 const IOPN_TESTNET_MONTHS: MonthConfig[] = [
   {
     name: 'September',
@@ -178,13 +189,216 @@ const IOPN_TESTNET_MONTHS: MonthConfig[] = [
   },
 ];
 
+// Etherscan V2 testnet month configurations, October 2025 - February 2026.
+// Block ranges are fallback estimates, see resolveMonthBlockRange. Metadata is
+// pinned per deployment, so its URI comes from the environment like the address.
+// Ethereum Sepolia: ~7,200 blocks/day
+const ETHEREUM_SEPOLIA_MONTHS: MonthConfig[] = [
+  {
+    name: 'October',
+    year: 2025,
+    chainSlug: 'ethereum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_SEPOLIA_OCTOBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 9300000,
+    endBlock: 9523199,
+    metadataURI: process.env.NEXT_PUBLIC_SEPOLIA_OCTOBER_METADATA_URI || '',
+  },
+  {
+    name: 'November',
+    year: 2025,
+    chainSlug: 'ethereum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_SEPOLIA_NOVEMBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 9523200,
+    endBlock: 9739199,
+    metadataURI: process.env.NEXT_PUBLIC_SEPOLIA_NOVEMBER_METADATA_URI || '',
+  },
+  {
+    name: 'December',
+    year: 2025,
+    chainSlug: 'ethereum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_SEPOLIA_DECEMBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 9739200,
+    endBlock: 9962399,
+    metadataURI: process.env.NEXT_PUBLIC_SEPOLIA_DECEMBER_METADATA_URI || '',
+  },
+  {
+    name: 'January',
+    year: 2026,
+    chainSlug: 'ethereum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_SEPOLIA_JANUARY_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 9962400,
+    endBlock: 10185599,
+    metadataURI: process.env.NEXT_PUBLIC_SEPOLIA_JANUARY_METADATA_URI || '',
+  },
+  {
+    name: 'February',
+    year: 2026,
+    chainSlug: 'ethereum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_SEPOLIA_FEBRUARY_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 10185600,
+    endBlock: 10387199,
+    metadataURI: process.env.NEXT_PUBLIC_SEPOLIA_FEBRUARY_METADATA_URI || '',
+  },
+];
+
+// Base Sepolia: ~43,200 blocks/day
+const BASE_SEPOLIA_MONTHS: MonthConfig[] = [
+  {
+    name: 'October',
+    year: 2025,
+    chainSlug: 'base-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_BASE_SEPOLIA_OCTOBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 31600000,
+    endBlock: 32939199,
+    metadataURI: process.env.NEXT_PUBLIC_BASE_SEPOLIA_OCTOBER_METADATA_URI || '',
+  },
+  {
+    name: 'November',
+    year: 2025,
+    chainSlug: 'base-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_BASE_SEPOLIA_NOVEMBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 32939200,
+    endBlock: 34235199,
+    metadataURI: process.env.NEXT_PUBLIC_BASE_SEPOLIA_NOVEMBER_METADATA_URI || '',
+  },
+  {
+    name: 'December',
+    year: 2025,
+    chainSlug: 'base-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_BASE_SEPOLIA_DECEMBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 34235200,
+    endBlock: 35574399,
+    metadataURI: process.env.NEXT_PUBLIC_BASE_SEPOLIA_DECEMBER_METADATA_URI || '',
+  },
+  {
+    name: 'January',
+    year: 2026,
+    chainSlug: 'base-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_BASE_SEPOLIA_JANUARY_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 35574400,
+    endBlock: 36913599,
+    metadataURI: process.env.NEXT_PUBLIC_BASE_SEPOLIA_JANUARY_METADATA_URI || '',
+  },
+  {
+    name: 'February',
+    year: 2026,
+    chainSlug: 'base-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_BASE_SEPOLIA_FEBRUARY_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 36913600,
+    endBlock: 38123199,
+    metadataURI: process.env.NEXT_PUBLIC_BASE_SEPOLIA_FEBRUARY_METADATA_URI || '',
+  },
+];
+
+// Arbitrum Sepolia: ~345,600 blocks/day
+const ARBITRUM_SEPOLIA_MONTHS: MonthConfig[] = [
+  {
+    name: 'October',
+    year: 2025,
+    chainSlug: 'arbitrum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_OCTOBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 200000000,
+    endBlock: 210713599,
+    metadataURI: process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_OCTOBER_METADATA_URI || '',
+  },
+  {
+    name: 'November',
+    year: 2025,
+    chainSlug: 'arbitrum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_NOVEMBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 210713600,
+    endBlock: 221081599,
+    metadataURI: process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_NOVEMBER_METADATA_URI || '',
+  },
+  {
+    name: 'December',
+    year: 2025,
+    chainSlug: 'arbitrum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_DECEMBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 221081600,
+    endBlock: 231795199,
+    metadataURI: process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_DECEMBER_METADATA_URI || '',
+  },
+  {
+    name: 'January',
+    year: 2026,
+    chainSlug: 'arbitrum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_JANUARY_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 231795200,
+    endBlock: 242508799,
+    metadataURI: process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_JANUARY_METADATA_URI || '',
+  },
+  {
+    name: 'February',
+    year: 2026,
+    chainSlug: 'arbitrum-sepolia',
+    contractAddress: (process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_FEBRUARY_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 242508800,
+    endBlock: 252185599,
+    metadataURI: process.env.NEXT_PUBLIC_ARBITRUM_SEPOLIA_FEBRUARY_METADATA_URI || '',
+  },
+];
+
+// Local Hardhat node, addresses written by `npm run deploy:localhost`. Its
+// blocks are all stamped with the time the node ran, so month lookups come up
+// empty and every month spans the whole local chain: any transaction makes a
+// wallet eligible for each of them.
+const LOCALHOST_MONTHS: MonthConfig[] = [
+  {
+    name: 'October',
+    year: 2025,
+    chainSlug: 'localhost',
+    contractAddress: (process.env.NEXT_PUBLIC_LOCALHOST_OCTOBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 0,
+    endBlock: Number.MAX_SAFE_INTEGER,
+    metadataURI: '',
+  },
+  {
+    name: 'November',
+    year: 2025,
+    chainSlug: 'localhost',
+    contractAddress: (process.env.NEXT_PUBLIC_LOCALHOST_NOVEMBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 0,
+    endBlock: Number.MAX_SAFE_INTEGER,
+    metadataURI: '',
+  },
+  {
+    name: 'December',
+    year: 2025,
+    chainSlug: 'localhost',
+    contractAddress: (process.env.NEXT_PUBLIC_LOCALHOST_DECEMBER_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 0,
+    endBlock: Number.MAX_SAFE_INTEGER,
+    metadataURI: '',
+  },
+  {
+    name: 'January',
+    year: 2026,
+    chainSlug: 'localhost',
+    contractAddress: (process.env.NEXT_PUBLIC_LOCALHOST_JANUARY_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 0,
+    endBlock: Number.MAX_SAFE_INTEGER,
+    metadataURI: '',
+  },
+  {
+    name: 'February',
+    year: 2026,
+    chainSlug: 'localhost',
+    contractAddress: (process.env.NEXT_PUBLIC_LOCALHOST_FEBRUARY_ADDRESS || '0x') as `0x${string}`,
+    startBlock: 0,
+    endBlock: Number.MAX_SAFE_INTEGER,
+    metadataURI: '',
+  },
+];
+
 // Registry of all chain month configs
 const CHAIN_MONTH_CONFIGS: Record<ChainId, MonthConfig[]> = {
   'pharos-atlantic': PHAROS_ATLANTIC_MONTHS,
-  'ethereum-sepolia': [], // To be configured when chain is active
-  'base-sepolia': [],     // To be configured when chain is active
-  'arbitrum-sepolia': [], // To be configured when chain is active
+  'ethereum-sepolia': ETHEREUM_SEPOLIA_MONTHS,
+  'base-sepolia': BASE_SEPOLIA_MONTHS,
+  'arbitrum-sepolia': ARBITRUM_SEPOLIA_MONTHS,
   'iopn-testnet': IOPN_TESTNET_MONTHS,
+  localhost: LOCALHOST_MONTHS,
 };
 
 // Get month configs for a specific chain
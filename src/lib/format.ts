@@ -0,0 +1,8 @@
+// Rough human-readable remaining time, e.g. "about 40s left"
+export function formatTimeLeft(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `about ${seconds}s left`;
+  }
+  return `about ${Math.ceil(seconds / 60)} min left`;
+}
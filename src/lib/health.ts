@@ -0,0 +1,129 @@
+import { createPublicClient, http } from 'viem';
+import { type ChainConfig, type ChainHealth, type HealthReport, type HealthStatus } from '@/types';
+import { getActiveChains } from './chains';
+import { parseBlockNumber } from './activityCheck/dialects';
+import { getQueueState } from './activityCheck/scheduler';
+import { getExplorerStats } from './activityCheck/stats';
+import { getOpenCircuits, probeUpstreams } from './activityCheck/upstreams';
+
+// Reports are reused this long so polling the endpoint costs the upstreams little
+const REPORT_TTL_MS = 15000;
+const PROBE_TIMEOUT_MS = 5000;
+// Explorer indexing further behind the chain than this makes checks miss recent activity
+const MAX_LAG_BLOCKS = 100;
+// Share of explorer requests refused or rate limited before checks are considered throttled
+const MAX_THROTTLED_RATE = 0.2;
+
+const STATUS_ORDER: HealthStatus[] = ['ok', 'degraded', 'down'];
+
+let cachedReport: { report: HealthReport; expiresAt: number } | null = null;
+let pendingReport: Promise<HealthReport> | null = null;
+
+async function timed<T>(probe: () => Promise<T>): Promise<{ value: T | null; latencyMs: number | null }> {
+  const startedAt = Date.now();
+  try {
+    const value = await probe();
+    return { value, latencyMs: Date.now() - startedAt };
+  } catch {
+    return { value: null, latencyMs: null };
+  }
+}
+
+async function probeRpc(chain: ChainConfig) {
+  const client = createPublicClient({ transport: http(chain.rpcUrl, { timeout: PROBE_TIMEOUT_MS, retryCount: 0 }) });
+  return timed(async () => Number(await client.getBlockNumber()));
+}
+
+// The explorer's latest indexed block, through the same upstreams checks use
+async function probeExplorer(chain: ChainConfig) {
+  const query = new URLSearchParams({
+    module: 'block',
+    action: 'getblocknobytime',
+    timestamp: '9999999999',
+    closest: 'before',
+  });
+  return timed(async () => {
+    const { data } = await probeUpstreams(chain, query, AbortSignal.timeout(PROBE_TIMEOUT_MS));
+    const block = data.status === '1' ? parseBlockNumber(chain.activityCheck.dialect, data.result) : null;
+    if (block === null) throw new Error('No block in explorer response');
+    return block;
+  });
+}
+
+async function checkChain(chain: ChainConfig): Promise<ChainHealth> {
+  // Chains checked over RPC alone have no explorer to be unhealthy
+  const usesExplorer = chain.activityCheck.checkers.includes('explorer');
+  const [rpc, explorer] = await Promise.all([
+    probeRpc(chain),
+    usesExplorer ? probeExplorer(chain) : { value: null, latencyMs: null },
+  ]);
+  const lagBlocks =
+    rpc.value !== null && explorer.value !== null ? Math.max(rpc.value - explorer.value, 0) : null;
+  const explorerRequests = getExplorerStats(chain.slug);
+  const upstreamQueue = getQueueState(chain);
+
+  const reasons: string[] = [];
+  if (rpc.value === null) reasons.push('RPC is unreachable');
+  if (usesExplorer && explorer.value === null) reasons.push('Explorer API is unreachable');
+  if (lagBlocks !== null && lagBlocks > MAX_LAG_BLOCKS) {
+    reasons.push(`Explorer is ${lagBlocks} blocks behind the chain`);
+  }
+  if (explorerRequests.throttledRate !== null && explorerRequests.throttledRate > MAX_THROTTLED_RATE) {
+    reasons.push('Explorer requests are being rate limited');
+  }
+  if (upstreamQueue.pausedForMs > 0) {
+    reasons.push('Explorer API is rate limiting the server');
+  }
+
+  const status: HealthStatus =
+    rpc.value === null && explorer.value === null ? 'down' : reasons.length > 0 ? 'degraded' : 'ok';
+
+  return {
+    chainSlug: chain.slug,
+    status,
+    reasons,
+    rpc: { reachable: rpc.value !== null, latestBlock: rpc.value, latencyMs: rpc.latencyMs },
+    explorer: {
+      reachable: explorer.value !== null,
+      indexedBlock: explorer.value,
+      lagBlocks,
+      latencyMs: explorer.latencyMs,
+      openCircuits: getOpenCircuits(chain).map((upstream) => new URL(upstream.url).host),
+    },
+    explorerRequests,
+    upstreamQueue,
+  };
+}
+
+async function buildReport(): Promise<HealthReport> {
+  const chains = await Promise.all(getActiveChains().map(checkChain));
+  const status = chains.reduce<HealthStatus>(
+    (worst, chain) => (STATUS_ORDER.indexOf(chain.status) > STATUS_ORDER.indexOf(worst) ? chain.status : worst),
+    'ok'
+  );
+  return { status, checkedAt: Date.now(), chains };
+}
+
+// Health of every active chain, probed at most once per REPORT_TTL_MS;
+// concurrent callers share one round of probes
+export async function getHealthReport(): Promise<HealthReport> {
+  if (cachedReport && Date.now() < cachedReport.expiresAt) {
+    return cachedReport.report;
+  }
+  if (!pendingReport) {
+    pendingReport = buildReport()
+      .then((report) => {
+        cachedReport = { report, expiresAt: Date.now() + REPORT_TTL_MS };
+        return report;
+      })
+      .finally(() => {
+        pendingReport = null;
+      });
+  }
+  return pendingReport;
+}
+
+// Seconds until the cached report is refreshed, for Cache-Control
+export function getReportMaxAge(): number {
+  return cachedReport ? Math.max(Math.floor((cachedReport.expiresAt - Date.now()) / 1000), 0) : 0;
+}
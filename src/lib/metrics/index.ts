@@ -0,0 +1,47 @@
+import { createCounter, createHistogram } from './registry';
+
+export { renderMetrics } from './registry';
+
+// Explorer actions get their own label value, anything else is lumped together
+// to keep client-supplied strings out of the series
+export function actionLabel(action: string | null): string {
+  return action === 'txlist' || action === 'getblocknobytime' || action === 'transactions' ? action : 'other';
+}
+
+// Calls to explorer upstreams, from the proxy and from server-side checks.
+// outcome: success, rejected (key/quota/rate limit error in the body) or the
+// ActivityErrorCode of the failure
+export const upstreamRequests = createCounter(
+  'explorer_upstream_requests_total',
+  'Explorer upstream requests by outcome',
+  ['chain', 'action', 'upstream', 'outcome']
+);
+
+export const upstreamDuration = createHistogram(
+  'explorer_upstream_request_duration_seconds',
+  'Explorer upstream request latency',
+  ['chain', 'action', 'upstream', 'outcome']
+);
+
+// Requests to /api/explorer. outcome: hit, coalesced or miss when answered,
+// throttled by the per-client limit, invalid, or upstream_error
+export const proxyRequests = createCounter(
+  'explorer_proxy_requests_total',
+  'Explorer proxy requests by outcome',
+  ['chain', 'action', 'outcome']
+);
+
+// Month checks actually run (cached answers are not counted).
+// outcome: active, inactive, unknown, or error when the check threw
+export const activityChecks = createCounter(
+  'activity_checks_total',
+  'Activity checks by outcome',
+  ['chain', 'month', 'outcome']
+);
+
+export const activityCheckDuration = createHistogram(
+  'activity_check_duration_seconds',
+  'Activity check duration',
+  ['chain', 'month', 'outcome'],
+  [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]
+);
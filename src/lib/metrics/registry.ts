@@ -0,0 +1,103 @@
+// Minimal in-process metrics in the Prometheus text exposition format
+// (https://prometheus.io/docs/instrumenting/exposition_formats/). Values live
+// in this process only and reset on restart, as Prometheus expects.
+
+export type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+interface Metric {
+  render(): string[];
+}
+
+// Seconds, sized for explorer and RPC calls
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const metrics: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+// Label values in the declared order, so the same series always gets one key
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return labelNames.map((name) => labels[name] ?? '').join('\u0000');
+}
+
+function formatLabels(labelNames: string[], key: string, extra?: [string, string]): string {
+  const values = key.split('\u0000');
+  const pairs = labelNames.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  if (extra) pairs.push(`${extra[0]}="${extra[1]}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export function createCounter(name: string, help: string, labelNames: string[]): Counter {
+  const series = new Map<string, number>();
+  metrics.push({
+    render: () => [
+      ...header(name, help, 'counter'),
+      ...[...series].map(([key, value]) => `${name}${formatLabels(labelNames, key)} ${value}`),
+    ],
+  });
+
+  return {
+    inc(labels, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      series.set(key, (series.get(key) ?? 0) + value);
+    },
+  };
+}
+
+export function createHistogram(
+  name: string,
+  help: string,
+  labelNames: string[],
+  buckets: number[] = DEFAULT_BUCKETS
+): Histogram {
+  const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+  metrics.push({
+    render: () => [
+      ...header(name, help, 'histogram'),
+      ...[...series].flatMap(([key, { counts, sum, count }]) => [
+        // Bucket counts are cumulative in the exposition format
+        ...buckets.map(
+          (bound, i) => `${name}_bucket${formatLabels(labelNames, key, ['le', String(bound)])} ${counts[i]}`
+        ),
+        `${name}_bucket${formatLabels(labelNames, key, ['le', '+Inf'])} ${count}`,
+        `${name}_sum${formatLabels(labelNames, key)} ${sum}`,
+        `${name}_count${formatLabels(labelNames, key)} ${count}`,
+      ]),
+    ],
+  });
+
+  return {
+    observe(labels, value) {
+      const key = seriesKey(labelNames, labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i] += 1;
+      });
+      entry.sum += value;
+      entry.count += 1;
+    },
+  };
+}
+
+// Every metric created so far, in exposition format
+export function renderMetrics(): string {
+  return `${metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+}
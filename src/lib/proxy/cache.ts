@@ -0,0 +1,34 @@
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface LruCache<T> {
+  get(key: string): { value: T; ttlMs: number } | null;
+  set(key: string, value: T, ttlMs: number): void;
+}
+
+// Least-recently-used cache with a TTL per entry. Map iteration order is
+// insertion order, so re-inserting on read keeps the oldest entry first.
+export function createLruCache<T>(maxEntries: number): LruCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      const ttlMs = entry.expiresAt - Date.now();
+      if (ttlMs <= 0) return null;
+      entries.set(key, entry);
+      return { value: entry.value, ttlMs };
+    },
+    set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type ChainConfig } from '@/types';
+import { fetchCachedResponse, type CacheStatus } from '../activityCheck/responseCache';
+import { recordExplorerEvent } from '../activityCheck/stats';
+import { actionLabel, proxyRequests } from '../metrics';
+import {
+  createMemoryStore,
+  createSlidingWindowLimiter,
+  getClientIp,
+  rateLimitHeaders,
+} from './rateLimit';
+import { ExplorerRequestError, parseExplorerRequest, type ExplorerRequest } from './validation';
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+// Proxies in front of the app that append to X-Forwarded-For (1 on most hosts)
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+const limiter = createSlidingWindowLimiter(createMemoryStore());
+
+type ExplorerResponse = { status?: string; message?: string; result?: unknown; items?: unknown };
+
+// X-Cache: HIT (served from cache), COALESCED (shared a concurrent upstream
+// fetch) or MISS. Error answers are never cached, here or by the browser.
+function cacheHeaders(status: CacheStatus, ttlMs: number | null): Record<string, string> {
+  return {
+    'X-Cache': status,
+    'Cache-Control': ttlMs !== null ? `public, max-age=${Math.floor(ttlMs / 1000)}` : 'no-store',
+  };
+}
+
+export function errorResponse(status: number, code: string, message: string, headers?: HeadersInit) {
+  return NextResponse.json({ error: { code, message } }, { status, headers });
+}
+
+// Serve a proxy request for the chain: rate limit, validate, then answer from
+// the cache or the chain's upstreams
+export async function handleExplorerRequest(chain: ChainConfig, request: NextRequest): Promise<NextResponse> {
+  const searchParams = request.nextUrl.searchParams;
+  const countRequest = (outcome: string) =>
+    proxyRequests.inc({ chain: chain.slug, action: actionLabel(searchParams.get('action')), outcome });
+
+  // Each chain has its own per-client budget
+  const ip = getClientIp(request.headers, TRUSTED_PROXY_COUNT);
+  const limit = await limiter.check(
+    `${chain.slug}:${ip}`,
+    chain.activityCheck.proxyRequestsPerMinute,
+    RATE_LIMIT_WINDOW_MS
+  );
+  const limitHeaders = rateLimitHeaders(limit);
+  if (!limit.allowed) {
+    recordExplorerEvent(chain.slug, 'refused');
+    countRequest('throttled');
+    return errorResponse(429, 'rate_limited', 'Rate limit exceeded, try again later', limitHeaders);
+  }
+
+  let explorerRequest: ExplorerRequest;
+  try {
+    explorerRequest = await parseExplorerRequest(chain, searchParams);
+  } catch (error) {
+    if (error instanceof ExplorerRequestError) {
+      countRequest('invalid');
+      return errorResponse(400, error.code, error.message, limitHeaders);
+    }
+    throw error;
+  }
+
+  // Only validated fields reach the upstream URL
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(explorerRequest)) {
+    query.set(key, String(value));
+  }
+
+  // The response cache is shared with server-side checks; keys are added per
+  // upstream, failing over when one is unhealthy
+  let response: Awaited<ReturnType<typeof fetchCachedResponse<ExplorerResponse>>>;
+  try {
+    response = await fetchCachedResponse<ExplorerResponse>(chain, query);
+  } catch {
+    countRequest('upstream_error');
+    return errorResponse(502, 'upstream_error', 'Explorer request failed', limitHeaders);
+  }
+
+  countRequest(response.cache.toLowerCase());
+  return NextResponse.json(response.data, {
+    headers: {
+      ...limitHeaders,
+      ...cacheHeaders(response.cache, response.ttlMs),
+      'X-Explorer-Upstream': response.upstream,
+    },
+  });
+}
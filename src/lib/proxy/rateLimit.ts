@@ -0,0 +1,162 @@
+// Proxy rate limiting: a limiter strategy over a pluggable counter store, so
+// several instances can share counters through Redis while a single instance
+// (and the tests) keep them in memory.
+
+// Counter storage. Both operations map onto plain Redis commands (SET NX with
+// INCR, and GET), which keeps any Redis-compatible server usable.
+export interface RateLimitStore {
+  // Add one to the counter and return the new value; the counter expires
+  // ttlMs after it was created
+  increment(key: string, ttlMs: number): Promise<number>;
+  get(key: string): Promise<number>;
+}
+
+// The subset of a Redis client (ioredis-style method names) the store needs
+export interface RedisLikeClient {
+  set(key: string, value: string, mode: 'PX', ms: number, condition: 'NX'): Promise<'OK' | null>;
+  incr(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number;               // Until the current window ends
+  retryAfterMs: number | null;   // Only when throttled
+}
+
+export interface RateLimiter {
+  check(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+}
+
+interface MemoryEntry {
+  value: number;
+  expiresAt: number;
+}
+
+// In-process store. Expired counters are dropped on access and in a sweep
+// every `sweepEvery` writes; beyond `maxEntries` the oldest counters go first.
+export function createMemoryStore({ maxEntries = 10000, sweepEvery = 1000 } = {}): RateLimitStore {
+  const entries = new Map<string, MemoryEntry>();
+  let writes = 0;
+
+  const read = (key: string): MemoryEntry | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const sweep = () => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key);
+    }
+  };
+
+  return {
+    async increment(key, ttlMs) {
+      if (++writes % sweepEvery === 0) sweep();
+
+      const entry = read(key);
+      if (entry) {
+        entry.value += 1;
+        return entry.value;
+      }
+      entries.set(key, { value: 1, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+      return 1;
+    },
+    async get(key) {
+      return read(key)?.value ?? 0;
+    },
+  };
+}
+
+export function createRedisStore(client: RedisLikeClient, prefix = 'ratelimit:'): RateLimitStore {
+  return {
+    async increment(key, ttlMs) {
+      // The counter is created together with its expiry, so it can't outlive
+      // the window whatever happens between the two commands. INCR keeps the TTL.
+      await client.set(prefix + key, '0', 'PX', ttlMs, 'NX');
+      return client.incr(prefix + key);
+    },
+    async get(key) {
+      return Number((await client.get(prefix + key)) ?? 0);
+    },
+  };
+}
+
+// Sliding window counter: the previous fixed window's count is weighted by how
+// much of it still overlaps the sliding window, which smooths out the burst a
+// plain fixed window allows at every boundary. Only requests that are let
+// through count, so a client retrying while throttled is unblocked as soon as
+// its earlier requests age out. Concurrent checks may overshoot the limit by
+// the requests decided in between.
+export function createSlidingWindowLimiter(store: RateLimitStore): RateLimiter {
+  return {
+    async check(key, limit, windowMs) {
+      const now = Date.now();
+      const window = Math.floor(now / windowMs);
+      const elapsed = now - window * windowMs;
+      const resetMs = windowMs - elapsed;
+
+      const [previous, current] = await Promise.all([
+        store.get(`${key}:${window - 1}`),
+        store.get(`${key}:${window}`),
+      ]);
+      const overlap = 1 - elapsed / windowMs;
+      // Including this request
+      const estimate = previous * overlap + current + 1;
+
+      if (estimate <= limit) {
+        // Kept for two windows so it can serve as the next one's previous count
+        await store.increment(`${key}:${window}`, windowMs * 2);
+        const remaining = Math.max(0, Math.floor(limit - estimate));
+        return { allowed: true, limit, remaining, resetMs, retryAfterMs: null };
+      }
+
+      // Wait until the previous window's weight has decayed enough, or for the
+      // next window when the current one alone is at the limit
+      const retryAfterMs =
+        current + 1 > limit || previous === 0
+          ? resetMs
+          : Math.min(resetMs, Math.max(0, windowMs * (1 - (limit - current - 1) / previous) - elapsed));
+      return { allowed: false, limit, remaining: 0, resetMs, retryAfterMs: Math.max(retryAfterMs, 1000) };
+    },
+  };
+}
+
+// Client IP from X-Forwarded-For. Each proxy appends the address it received
+// the request from, so only the last `trustedProxies` entries were written by
+// infrastructure we control; anything further left is client-supplied and
+// spoofable. With no trusted proxies the header is ignored, and a shorter
+// chain means the request bypassed them, so no header can be trusted.
+export function getClientIp(headers: Headers, trustedProxies: number): string {
+  if (trustedProxies < 1) return 'unknown';
+
+  const forwarded = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length < trustedProxies) return 'unknown';
+  return forwarded[forwarded.length - trustedProxies];
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+  };
+  if (result.retryAfterMs !== null) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfterMs / 1000));
+  }
+  return headers;
+}
@@ -0,0 +1,229 @@
+import { isAddress } from 'viem';
+import { type ChainConfig, type MonthConfig } from '@/types';
+import { getMonthConfigsForChain } from '../contracts';
+import { getMonthTimeRange, resolveMonthBlockRange } from '../activityCheck/blockRange';
+import { createLruCache } from './cache';
+
+// Checkers page 100 rows at a time and explorers stop at page * offset = 10,000
+const MAX_OFFSET = 100;
+const MAX_ROWS = 10000;
+// Bounds of a chain with a month in progress move; closed months are cached
+// by the resolver anyway
+const BLOCK_BOUNDS_TTL_MS = 60000;
+const blockBoundsCache = createLruCache<BlockBounds>(100); // One entry per chain
+
+export interface BlockBounds {
+  min: number;
+  max: number;
+}
+
+export type ExplorerRequestErrorCode =
+  | 'invalid_chain'
+  | 'unsupported_action'
+  | 'invalid_address'
+  | 'invalid_block_range'
+  | 'invalid_timestamp'
+  | 'invalid_pagination'
+  | 'invalid_sort';
+
+export class ExplorerRequestError extends Error {
+  readonly code: ExplorerRequestErrorCode;
+
+  constructor(code: ExplorerRequestErrorCode, message: string) {
+    super(message);
+    this.name = 'ExplorerRequestError';
+    this.code = code;
+  }
+}
+
+export interface TxListRequest {
+  module: 'account';
+  action: 'txlist';
+  address: `0x${string}`;
+  startblock: number;
+  endblock: number;
+  page: number;
+  offset: number;
+  sort: 'asc' | 'desc';
+}
+
+export interface BlockByTimeRequest {
+  module: 'block';
+  action: 'getblocknobytime';
+  timestamp: number;
+  closest: 'before' | 'after';
+}
+
+// Blockscout REST API listing, see REST_TRANSACTIONS. The cursor fields are
+// next_page_params from the previous page, or the first page's starting point.
+export interface RestTransactionsRequest {
+  module: 'addresses';
+  action: 'transactions';
+  address: `0x${string}`;
+  block_number: number;
+  index: number;
+  items_count?: number;
+}
+
+export type ExplorerRequest = TxListRequest | BlockByTimeRequest | RestTransactionsRequest;
+
+function parseInteger(
+  params: URLSearchParams,
+  name: string,
+  code: ExplorerRequestErrorCode,
+  fallback?: number
+): number {
+  const raw = params.get(name);
+  if (raw === null && fallback !== undefined) return fallback;
+  if (raw === null || !/^\d+$/.test(raw)) {
+    throw new ExplorerRequestError(code, `${name} must be a non-negative integer`);
+  }
+  return Number(raw);
+}
+
+// Blocks the chain's collections cover, from the first month's first block to
+// the last month's last block. Checkers scan the ranges resolved from the
+// months' UTC dates, or the registry's estimates when that fails, so both are
+// accepted. A month still in progress extends to the chain head.
+export async function getBlockBounds(
+  chain: ChainConfig,
+  months: MonthConfig[] = getMonthConfigsForChain(chain.slug)
+): Promise<BlockBounds> {
+  const cached = blockBoundsCache.get(chain.slug);
+  if (cached) return cached.value;
+
+  const byStart = [...months].sort((a, b) => getMonthTimeRange(a).startTime - getMonthTimeRange(b).startTime);
+  const first = byStart[0];
+  const last = byStart[byStart.length - 1];
+  if (!first) {
+    throw new ExplorerRequestError('invalid_block_range', `${chain.name} has no collections`);
+  }
+  const isRunning = getMonthTimeRange(last).endTime >= Date.now() / 1000;
+
+  const [firstRange, lastRange] = await Promise.all([
+    // Bounds only need to be loose, the configured estimates do when lookups fail
+    resolveMonthBlockRange(chain, first).catch(() => first),
+    isRunning ? null : resolveMonthBlockRange(chain, last).catch(() => last),
+  ]);
+  const bounds = {
+    min: Math.min(first.startBlock, firstRange.startBlock),
+    max: lastRange ? Math.max(last.endBlock, lastRange.endBlock) : Number.MAX_SAFE_INTEGER,
+  };
+  blockBoundsCache.set(chain.slug, bounds, BLOCK_BOUNDS_TTL_MS);
+  return bounds;
+}
+
+function parseAddress(params: URLSearchParams): `0x${string}` {
+  const address = params.get('address') ?? '';
+  // Accepts all-lowercase addresses, mixed case must carry a valid checksum
+  if (!isAddress(address)) {
+    throw new ExplorerRequestError('invalid_address', 'address must be a checksum-valid address');
+  }
+  return address;
+}
+
+async function parseTxList(chain: ChainConfig, params: URLSearchParams): Promise<TxListRequest> {
+  const address = parseAddress(params);
+
+  const startblock = parseInteger(params, 'startblock', 'invalid_block_range');
+  const endblock = parseInteger(params, 'endblock', 'invalid_block_range');
+  const { min, max } = await getBlockBounds(chain);
+  if (startblock > endblock || startblock < min || endblock > max) {
+    throw new ExplorerRequestError(
+      'invalid_block_range',
+      `Block range must lie within ${min}-${max} on ${chain.name}`
+    );
+  }
+
+  const page = parseInteger(params, 'page', 'invalid_pagination', 1);
+  const offset = parseInteger(params, 'offset', 'invalid_pagination', 1);
+  if (page < 1 || offset < 1 || offset > MAX_OFFSET || page * offset > MAX_ROWS) {
+    throw new ExplorerRequestError(
+      'invalid_pagination',
+      `offset must be 1-${MAX_OFFSET} and page * offset at most ${MAX_ROWS}`
+    );
+  }
+
+  const sort = params.get('sort') ?? 'asc';
+  if (sort !== 'asc' && sort !== 'desc') {
+    throw new ExplorerRequestError('invalid_sort', "sort must be 'asc' or 'desc'");
+  }
+
+  return { module: 'account', action: 'txlist', address, startblock, endblock, page, offset, sort };
+}
+
+async function parseBlockByTime(chain: ChainConfig, params: URLSearchParams): Promise<BlockByTimeRequest> {
+  // Anything before the first collection is of no use to the checkers; later
+  // timestamps, including the far-future "latest block" lookup, are fine
+  const timestamp = parseInteger(params, 'timestamp', 'invalid_timestamp');
+  const earliest = Math.min(
+    ...getMonthConfigsForChain(chain.slug).map((config) => getMonthTimeRange(config).startTime)
+  );
+  if (timestamp < earliest) {
+    throw new ExplorerRequestError('invalid_timestamp', `timestamp must not be before ${earliest}`);
+  }
+
+  const closest = params.get('closest') ?? 'before';
+  if (closest !== 'before' && closest !== 'after') {
+    throw new ExplorerRequestError('invalid_timestamp', "closest must be 'before' or 'after'");
+  }
+
+  return { module: 'block', action: 'getblocknobytime', timestamp, closest };
+}
+
+async function parseRestTransactions(
+  chain: ChainConfig,
+  params: URLSearchParams
+): Promise<RestTransactionsRequest> {
+  if (chain.activityCheck.dialect !== 'blockscout-v2') {
+    throw new ExplorerRequestError('unsupported_action', `${chain.name} has no Blockscout REST API`);
+  }
+  const address = parseAddress(params);
+
+  // The cursor starts just past a range's end block
+  const blockNumber = parseInteger(params, 'block_number', 'invalid_block_range');
+  const { min, max } = await getBlockBounds(chain);
+  if (blockNumber < min || blockNumber > max + 1) {
+    throw new ExplorerRequestError(
+      'invalid_block_range',
+      `block_number must lie within ${min}-${max + 1} on ${chain.name}`
+    );
+  }
+
+  const index = parseInteger(params, 'index', 'invalid_pagination');
+  const request: RestTransactionsRequest = {
+    module: 'addresses',
+    action: 'transactions',
+    address,
+    block_number: blockNumber,
+    index,
+  };
+  if (params.has('items_count')) {
+    request.items_count = parseInteger(params, 'items_count', 'invalid_pagination');
+    if (request.items_count > MAX_ROWS) {
+      throw new ExplorerRequestError('invalid_pagination', `items_count must be at most ${MAX_ROWS}`);
+    }
+  }
+  return request;
+}
+
+// The only explorer calls the proxy forwards, keyed by module.action
+const ACTIONS: Record<string, (chain: ChainConfig, params: URLSearchParams) => Promise<ExplorerRequest>> = {
+  'account.txlist': parseTxList,
+  'block.getblocknobytime': parseBlockByTime,
+  'addresses.transactions': parseRestTransactions,
+};
+
+// Validate a proxy query against the schema of its module/action pair.
+// Rejects with an ExplorerRequestError describing the first problem found.
+export async function parseExplorerRequest(chain: ChainConfig, params: URLSearchParams): Promise<ExplorerRequest> {
+  const key = `${params.get('module')}.${params.get('action')}`;
+  const parse = ACTIONS[key];
+  if (!parse) {
+    throw new ExplorerRequestError(
+      'unsupported_action',
+      `Allowed module/action pairs: ${Object.keys(ACTIONS).join(', ')}`
+    );
+  }
+  return parse(chain, params);
+}
@@ -0,0 +1,29 @@
+import { encodeAbiParameters, keccak256, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+// Hash ActivityNFT.mintWithTier expects the tier signer to have signed as an
+// Ethereum signed message, binding the approval to one contract and minter
+export function getTierApprovalHash(chainId: number, contract: Address, minter: Address, tier: number): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: 'uint256' }, { type: 'address' }, { type: 'address' }, { type: 'uint256' }],
+      [BigInt(chainId), contract, minter, BigInt(tier)]
+    )
+  );
+}
+
+// Sign a tier approval with TIER_SIGNER_PRIVATE_KEY (server only), null when
+// no signer is configured. The contract's tierSigner must be this key's address.
+export async function signTierApproval(
+  chainId: number,
+  contract: Address,
+  minter: Address,
+  tier: number
+): Promise<Hex | null> {
+  const privateKey = process.env.TIER_SIGNER_PRIVATE_KEY;
+  if (!privateKey) return null;
+
+  const account = privateKeyToAccount(privateKey as Hex);
+  const hash = getTierApprovalHash(chainId, contract, minter, tier);
+  return account.signMessage({ message: { raw: hash } });
+}
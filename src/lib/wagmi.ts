@@ -1,6 +1,12 @@
-import { http, createConfig } from 'wagmi';
+import { http, createConfig, type Transport } from 'wagmi';
 import { injected, walletConnect, coinbaseWallet } from 'wagmi/connectors';
 import { defineChain } from 'viem';
+import {
+  arbitrumSepolia as viemArbitrumSepolia,
+  baseSepolia as viemBaseSepolia,
+  hardhat,
+  sepolia,
+} from 'viem/chains';
 import { CHAINS } from './chains';
 
 // Define chains for wagmi/viem
@@ -22,10 +28,11 @@ export const pharosTestnet = defineChain({
   testnet: true,
 });
 
+// The Etherscan V2 chains build on viem's definitions, which carry their
+// multicall3 deployments (and OP Stack formatters for Base), with our RPC URLs
 export const ethereumSepolia = defineChain({
-  id: CHAINS['ethereum-sepolia'].id,
+  ...sepolia,
   name: CHAINS['ethereum-sepolia'].name,
-  nativeCurrency: CHAINS['ethereum-sepolia'].nativeCurrency,
   rpcUrls: {
     default: {
       http: [CHAINS['ethereum-sepolia'].rpcUrl],
@@ -41,9 +48,8 @@ export const ethereumSepolia = defineChain({
 });
 
 export const baseSepolia = defineChain({
-  id: CHAINS['base-sepolia'].id,
+  ...viemBaseSepolia,
   name: CHAINS['base-sepolia'].name,
-  nativeCurrency: CHAINS['base-sepolia'].nativeCurrency,
   rpcUrls: {
     default: {
       http: [CHAINS['base-sepolia'].rpcUrl],
@@ -59,9 +65,8 @@ export const baseSepolia = defineChain({
 });
 
 export const arbitrumSepolia = defineChain({
-  id: CHAINS['arbitrum-sepolia'].id,
+  ...viemArbitrumSepolia,
   name: CHAINS['arbitrum-sepolia'].name,
-  nativeCurrency: CHAINS['arbitrum-sepolia'].nativeCurrency,
   rpcUrls: {
     default: {
       http: [CHAINS['arbitrum-sepolia'].rpcUrl],
@@ -94,8 +99,21 @@ export const iopnTestnet = defineChain({
   testnet: true,
 });
 
-// All supported chains
-const chains = [pharosTestnet, ethereumSepolia, baseSepolia, arbitrumSepolia, iopnTestnet] as const;
+// `npx hardhat node`; only offered in development, see CHAINS
+export const localhost = defineChain({
+  ...hardhat,
+  name: CHAINS.localhost.name,
+  rpcUrls: {
+    default: {
+      http: [CHAINS.localhost.rpcUrl],
+    },
+  },
+  testnet: true,
+});
+
+// All supported chains; localhost only while it is active (in development), like CHAINS
+const deployedChains = [pharosTestnet, ethereumSepolia, baseSepolia, arbitrumSepolia, iopnTestnet] as const;
+const chains = CHAINS.localhost.isActive ? ([...deployedChains, localhost] as const) : deployedChains;
 
 const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || '';
 
@@ -108,13 +126,10 @@ export const config = createConfig({
       : []),
     coinbaseWallet({ appName: 'Activity Proof' }),
   ],
-  transports: {
-    [pharosTestnet.id]: http(),
-    [ethereumSepolia.id]: http(),
-    [baseSepolia.id]: http(),
-    [arbitrumSepolia.id]: http(),
-    [iopnTestnet.id]: http(),
-  },
+  transports: Object.fromEntries(chains.map((chain) => [chain.id, http()])) as Record<
+    (typeof chains)[number]['id'],
+    Transport
+  >,
 });
 
 declare module 'wagmi' {
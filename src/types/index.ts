@@ -1,8 +1,45 @@
 // Supported chain identifiers
-export type ChainId = 'pharos-atlantic' | 'ethereum-sepolia' | 'base-sepolia' | 'arbitrum-sepolia' | 'iopn-testnet';
+export type ChainId =
+  | 'pharos-atlantic'
+  | 'ethereum-sepolia'
+  | 'base-sepolia'
+  | 'arbitrum-sepolia'
+  | 'iopn-testnet'
+  | 'localhost';
 
 export type Month = 'September' | 'October' | 'November' | 'December' | 'January' | 'February';
 
+// Response format of the explorer's Etherscan-compatible API
+// - etherscan: getblocknobytime returns the block as a number or numeric string
+// - blockscout: getblocknobytime returns { blockNumber: string }
+// - blockscout-v2: transactions come from the Blockscout REST API (/api/v2) with
+//   cursor pagination; block lookups still use the compatibility API as blockscout
+export type ExplorerDialect = 'etherscan' | 'blockscout' | 'blockscout-v2';
+
+// Activity verification backends
+// - explorer: scans txlist on the chain's explorer API
+// - rpc: compares the account nonce at the month's block boundaries
+export type ActivityCheckerKind = 'explorer' | 'rpc';
+
+// One explorer API the proxy can forward to
+export interface ExplorerUpstream {
+  url: string;
+  dialect: ExplorerDialect;
+  apiKeyEnv?: string;            // Server-only variable with the key pool, comma-separated
+  chainId?: number;              // Sent as chainid to multichain APIs such as Etherscan V2
+}
+
+// Per-chain settings for activity verification
+export interface ActivityCheckConfig {
+  checkers: ActivityCheckerKind[]; // In order of preference, later entries are fallbacks
+  dialect: ExplorerDialect;
+  chunkSize: number;             // Smallest txlist range split down to; eth_getLogs range per request
+  maxConcurrent: number;         // Explorer requests in flight at once, across all checks
+  requestsPerMinute: number;     // Upstream explorer budget shared by all checks on the chain
+  proxyRequestsPerMinute: number; // Per-client budget /api/explorer enforces (and browsers stay under)
+  upstreams?: ExplorerUpstream[]; // In order of preference; defaults to explorerApiUrl with the chain's dialect
+}
+
 // Chain configuration for multi-chain support
 export interface ChainConfig {
   id: number;                    // Numeric chain ID (e.g., 688689 for Pharos)
@@ -15,11 +52,44 @@ export interface ChainConfig {
     decimals: number;
   };
   rpcUrl: string;
-  explorerUrl: string;
+  explorerUrl: string;           // Empty when the chain has no block explorer
   explorerApiUrl: string;
+  activityCheck: ActivityCheckConfig;
   iconColor: string;             // Gradient color for UI
   isTestnet: boolean;
   isActive: boolean;             // Whether this chain is currently supported
+  isDevelopmentOnly?: boolean;   // Not listed at all outside development
+}
+
+// Rules a month's transactions must satisfy to count as activity.
+// Omitted fields mean "any transaction of any kind".
+export interface ActivityCriteria {
+  outgoingOnly?: boolean;        // Only transactions sent by the wallet count
+  successOnly?: boolean;         // Exclude reverted transactions
+  minTxCount?: number;           // Minimum qualifying transactions (default 1)
+  minActiveDays?: number;        // Minimum distinct UTC days with a qualifying transaction
+}
+
+// Partner dApp interaction that earns a month's NFT. A requirement is met by a
+// successful call from the wallet to `contract` (optionally limited to some
+// function selectors), or - when `event` is set - by the contract emitting that
+// event with the wallet in one of its indexed parameters.
+export interface QuestRequirement {
+  id: string;                    // Stable identifier reported in results
+  label: string;                 // Shown on the mint card
+  contract: `0x${string}`;
+  selectors?: `0x${string}`[];   // 4-byte function selectors, any call counts if omitted
+  event?: {
+    topic: `0x${string}`;        // keccak256 of the event signature
+    walletTopic: 1 | 2 | 3;      // Indexed parameter that holds the wallet address
+  };
+}
+
+// Reward level within a month, reached at minScore activity points
+export interface ActivityTier {
+  name: string;                  // e.g. 'Bronze', 'Silver', 'Gold'
+  minScore: number;
+  metadataURI: string;           // Set as the contract's tierURIs by the deploy scripts
 }
 
 // Month configuration per chain
@@ -31,12 +101,108 @@ export interface MonthConfig {
   startBlock: number;
   endBlock: number;
   metadataURI: string;
+  criteria?: ActivityCriteria;
+  quests?: QuestRequirement[];   // When set, meeting any one requirement replaces generic activity
+  tiers?: ActivityTier[];        // Ascending by minScore; minted through /api/mint-signature approvals
+}
+
+// Outcome of an activity check
+// - active: a qualifying transaction was found
+// - inactive: the whole range was checked and nothing qualified
+// - unknown: the check could not complete (rate limit, outage, timeout)
+export type ActivityStatus = 'active' | 'inactive' | 'unknown';
+
+export type ActivityErrorCode =
+  | 'rate_limited'
+  | 'timeout'
+  | 'network_error'
+  | 'upstream_error'
+  | 'invalid_response'
+  | 'range_too_large'
+  | 'rpc_error'
+  | 'unsupported_criteria'
+  | 'unknown_error';
+
+export interface ActivityCheckErrorInfo {
+  code: ActivityErrorCode;
+  message: string;
+}
+
+// Transaction that proved activity
+export interface ActivityEvidence {
+  hash: string;
+  blockNumber: number;
+  timestamp: number;             // Unix seconds
+}
+
+// Explorer transaction normalized across API dialects
+export interface ActivityTransaction {
+  hash: string;
+  blockNumber: number;
+  timestamp: number;             // Unix seconds
+  from: string;
+  to: string;
+  input: string;                 // Calldata, '0x' when the explorer omits it
+  isError: boolean;
+}
+
+// Activity counters a score is computed from
+export interface ActivityMetrics {
+  txCount: number;
+  activeDays: number;            // Distinct UTC days
+  distinctContracts: number;     // Distinct contracts called (transactions with calldata)
+}
+
+export interface ActivityScore {
+  metrics: ActivityMetrics;
+  score: number;
+  tier: number | null;           // Index into MonthConfig.tiers, null below the lowest tier
+  nextTier: number | null;
+  pointsToNextTier: number | null;
+}
+
+// Inputs shared by every checker backend besides the block range
+export interface CheckerOptions {
+  criteria?: ActivityCriteria;
+  quest?: QuestRequirement;      // Only count calls matching this requirement
+  collectMetrics?: boolean;      // Scan the whole range to count metrics for scoring
+  onProgress?: (checked: number, total: number) => void;
+  signal?: AbortSignal;          // Cancels every request the check makes
+  priority?: number;             // Higher goes first in the explorer request queue
+}
+
+// What a single checker backend found in a block range
+export interface CheckerResult {
+  hasActivity: boolean;
+  evidence: ActivityEvidence | null; // May be null even when active if the backend can't tell which tx
+  metrics: ActivityMetrics | null;   // Only when collectMetrics was requested and supported
+}
+
+export interface ActivityOutcome {
+  status: ActivityStatus;
+  checker: ActivityCheckerKind | null; // Backend that produced the answer, null if none did
+  evidence: ActivityEvidence | null;   // Set when status is 'active'
+  questId: string | null;              // Quest requirement that was met, for quest months
+  score: ActivityScore | null;         // For tiered months when the backend could count metrics
+  error: ActivityCheckErrorInfo | null; // Set when status is 'unknown'
+}
+
+// Chunk-level progress of a running check
+export interface ActivityProgress {
+  checked: number;
+  total: number;
+  etaMs: number | null;          // null until the first chunk finishes
 }
 
 export interface ActivityResult {
   month: Month;
   chainSlug: ChainId;
+  status: ActivityStatus | null; // null until checked
   hasActivity: boolean;
+  evidence: ActivityEvidence | null;
+  questId: string | null;
+  score: ActivityScore | null;
+  progress: ActivityProgress | null; // Only while loading
   isLoading: boolean;
   isChecked: boolean;
   error: string | null;
@@ -59,3 +225,42 @@ export interface NFTData {
   tokenURI: string;
   imageUrl: string;
 }
+
+// Whether a chain's activity verification works right now
+// - ok: RPC and explorer answer and the explorer keeps up with the chain
+// - degraded: checks may be slow or fall back (one backend down, indexing lag, throttling)
+// - down: neither backend answers
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface ChainHealth {
+  chainSlug: ChainId;
+  status: HealthStatus;
+  reasons: string[];             // Why the chain is not ok, for display
+  rpc: {
+    reachable: boolean;
+    latestBlock: number | null;
+    latencyMs: number | null;
+  };
+  explorer: {
+    reachable: boolean;
+    indexedBlock: number | null;
+    lagBlocks: number | null;    // Behind the RPC's latest block
+    latencyMs: number | null;
+    openCircuits: string[];      // Hosts of upstreams taken out of rotation
+  };
+  explorerRequests: {           // From server-side checks and the proxy alike
+    requests: number;            // Over the stats window
+    cacheHitRate: number | null; // Hits and coalesced requests over response cache lookups
+    throttledRate: number | null; // Refused by the per-client limit or rate limited upstream
+  };
+  upstreamQueue: {
+    waiting: number;             // Server-side checks queued for the explorer budget
+    pausedForMs: number;         // Remaining pause after an upstream 429
+  };
+}
+
+export interface HealthReport {
+  status: HealthStatus;          // Worst status of any chain
+  checkedAt: number;
+  chains: ChainHealth[];
+}
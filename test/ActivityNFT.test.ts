@@ -2,6 +2,7 @@ import { expect } from "chai";
 import hre from "hardhat";
 import { ActivityNFT } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { signTierApproval } from "../src/lib/tierApproval";
 
 const { ethers } = hre;
 
@@ -102,6 +103,95 @@ describe("ActivityNFT", function () {
     });
   });
 
+  describe("Tiered Minting", function () {
+    const TIER_URIS = ["ipfs://QmBronze", "ipfs://QmSilver", "ipfs://QmGold"];
+    const tierSigner = ethers.Wallet.createRandom();
+    const previousKey = process.env.TIER_SIGNER_PRIVATE_KEY;
+
+    // The approval the app's server hands out for minter and tier
+    async function approve(minter: string, tier: number) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const signature = await signTierApproval(
+        Number(chainId),
+        (await activityNFT.getAddress()) as `0x${string}`,
+        minter as `0x${string}`,
+        tier
+      );
+      return signature!;
+    }
+
+    before(function () {
+      process.env.TIER_SIGNER_PRIVATE_KEY = tierSigner.privateKey;
+    });
+
+    after(function () {
+      process.env.TIER_SIGNER_PRIVATE_KEY = previousKey;
+      if (previousKey === undefined) delete process.env.TIER_SIGNER_PRIVATE_KEY;
+    });
+
+    beforeEach(async function () {
+      await activityNFT.setTierURIs(TIER_URIS);
+      await activityNFT.setTierSigner(tierSigner.address);
+    });
+
+    it("should mint with the approved tier URI", async function () {
+      await expect(activityNFT.connect(user1).mintWithTier(2, await approve(user1.address, 2)))
+        .to.emit(activityNFT, "NFTMinted")
+        .withArgs(user1.address, 0, TIER_URIS[2]);
+
+      expect(await activityNFT.tokenURI(0)).to.equal(TIER_URIS[2]);
+    });
+
+    it("should revert for a tier other than the approved one", async function () {
+      const signature = await approve(user1.address, 0);
+      await expect(activityNFT.connect(user1).mintWithTier(2, signature)).to.be.revertedWith("Invalid tier signature");
+    });
+
+    it("should revert for another minter's approval", async function () {
+      const signature = await approve(user2.address, 2);
+      await expect(activityNFT.connect(user1).mintWithTier(2, signature)).to.be.revertedWith("Invalid tier signature");
+    });
+
+    it("should revert for an approval signed by someone else", async function () {
+      const signature = await user1.signMessage(
+        ethers.getBytes(
+          ethers.keccak256(
+            ethers.AbiCoder.defaultAbiCoder().encode(
+              ["uint256", "address", "address", "uint256"],
+              [(await ethers.provider.getNetwork()).chainId, await activityNFT.getAddress(), user1.address, 2]
+            )
+          )
+        )
+      );
+      await expect(activityNFT.connect(user1).mintWithTier(2, signature)).to.be.revertedWith("Invalid tier signature");
+    });
+
+    it("should revert while no tier signer is set", async function () {
+      const signature = await approve(user1.address, 2);
+      await activityNFT.setTierSigner(ethers.ZeroAddress);
+      await expect(activityNFT.connect(user1).mintWithTier(2, signature)).to.be.revertedWith("Invalid tier signature");
+    });
+
+    it("should revert for an unknown tier", async function () {
+      await expect(activityNFT.connect(user1).mintWithTier(3, await approve(user1.address, 3))).to.be.revertedWith(
+        "Invalid tier"
+      );
+    });
+
+    it("should share the one-per-wallet limit with mint", async function () {
+      await activityNFT.connect(user1).mint();
+      await expect(activityNFT.connect(user1).mintWithTier(0, await approve(user1.address, 0))).to.be.revertedWith(
+        "Already minted"
+      );
+    });
+
+    it("should revert when paused", async function () {
+      const signature = await approve(user1.address, 0);
+      await activityNFT.pause();
+      await expect(activityNFT.connect(user1).mintWithTier(0, signature)).to.be.reverted;
+    });
+  });
+
   describe("Owner Functions", function () {
     describe("setMaxSupply", function () {
       it("should allow owner to increase max supply", async function () {
@@ -152,6 +242,33 @@ describe("ActivityNFT", function () {
       });
     });
 
+    describe("setTierURIs", function () {
+      it("should allow owner to replace tier URIs", async function () {
+        await expect(activityNFT.setTierURIs(["ipfs://QmA", "ipfs://QmB"]))
+          .to.emit(activityNFT, "TierURIsUpdated")
+          .withArgs(2);
+        await activityNFT.setTierURIs(["ipfs://QmC"]);
+        expect(await activityNFT.tierURIs()).to.deep.equal(["ipfs://QmC"]);
+      });
+
+      it("should revert when non-owner calls", async function () {
+        await expect(activityNFT.connect(user1).setTierURIs(["ipfs://QmA"])).to.be.reverted;
+      });
+    });
+
+    describe("setTierSigner", function () {
+      it("should allow owner to set the tier signer", async function () {
+        await expect(activityNFT.setTierSigner(user2.address))
+          .to.emit(activityNFT, "TierSignerUpdated")
+          .withArgs(user2.address);
+        expect(await activityNFT.tierSigner()).to.equal(user2.address);
+      });
+
+      it("should revert when non-owner calls", async function () {
+        await expect(activityNFT.connect(user1).setTierSigner(user1.address)).to.be.reverted;
+      });
+    });
+
     describe("updateTokenURI", function () {
       const UPDATED_URI = "ipfs://QmUpdatedTokenURI";
 
@@ -0,0 +1,172 @@
+import { expect } from "chai";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { CHAINS } from "../src/lib/chains";
+import { getMonthConfigsForChain } from "../src/lib/contracts";
+import { resolveMonthBlockRange } from "../src/lib/activityCheck/blockRange";
+import { fetchActivityForMonth } from "../src/lib/activityCheck/api";
+import { isConclusiveOutcome } from "../src/lib/activityCheck";
+import { checkActivity } from "../src/lib/activityCheck/explorer";
+import { ActivityCheckError } from "../src/lib/activityCheck/errors";
+import {
+  configureActivityCheck,
+  createFileCacheStore,
+  createMemoryCacheStore,
+  getActivityCheckEnvironment,
+  type ActivityCheckEnvironment,
+} from "../src/lib/activityCheck/node";
+import { type ChainConfig, type ChainId } from "../src/types";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+
+describe("Activity check environment", function () {
+  let saved: ActivityCheckEnvironment;
+  let requests: URL[];
+  let run = 0;
+  let chain: ChainConfig;
+
+  const ok = (result: unknown) => new Response(JSON.stringify({ status: "1", message: "OK", result }));
+
+  // Answers block lookups and txlist the way the app's proxy would
+  const proxyFetch: typeof fetch = async (input) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    if (url.searchParams.get("action") === "getblocknobytime") {
+      return ok(url.searchParams.get("closest") === "after" ? "1000" : "2000");
+    }
+    return ok([
+      { blockNumber: "1500", timeStamp: "1760000000", hash: "0xabc", from: WALLET, to: WALLET, isError: "0" },
+    ]);
+  };
+
+  beforeEach(function () {
+    saved = getActivityCheckEnvironment();
+    requests = [];
+    // Fresh slugs keep per-chain caches and queues from leaking between tests
+    chain = { ...CHAINS["pharos-atlantic"], slug: `env-test-${++run}` as ChainId };
+  });
+
+  afterEach(function () {
+    configureActivityCheck(saved);
+  });
+
+  it("should call the upstreams directly outside a browser by default", function () {
+    expect(saved.baseUrl).to.equal(null);
+    expect(saved.cache).to.equal(null);
+  });
+
+  it("should send explorer requests through the configured app with the injected fetch", async function () {
+    configureActivityCheck({ baseUrl: "https://app.example", fetch: proxyFetch });
+
+    const result = await checkActivity(chain, WALLET, 1000, 2000);
+    expect(result.evidence?.hash).to.equal("0xabc");
+    expect(requests.length).to.be.greaterThan(0);
+    for (const url of requests) {
+      expect(`${url.origin}${url.pathname}`).to.equal("https://app.example/api/explorer");
+      expect(url.searchParams.get("chain")).to.equal(chain.slug);
+    }
+  });
+
+  it("should keep closed months' block ranges in the configured store", async function () {
+    const cache = createMemoryCacheStore();
+    configureActivityCheck({ baseUrl: "https://app.example", fetch: proxyFetch, cache });
+    const config = { ...getMonthConfigsForChain("pharos-atlantic")[0], chainSlug: chain.slug };
+
+    expect(await resolveMonthBlockRange(chain, config)).to.deep.equal({ startBlock: 1000, endBlock: 2000 });
+    const key = `blockrange_${chain.slug}_${config.year}_${config.name}`;
+    expect(JSON.parse((await cache.get(key))!)).to.deep.equal({ startBlock: 1000, endBlock: 2000 });
+  });
+
+  it("should treat a failing or corrupt store as a cache miss", async function () {
+    const failing = {
+      ...createMemoryCacheStore(),
+      get: () => Promise.reject(new Error("disk unavailable")),
+      set: () => Promise.reject(new Error("disk unavailable")),
+    };
+    const corrupt = createMemoryCacheStore();
+
+    for (const cache of [failing, corrupt]) {
+      // A fresh slug per store, or the first range would be served from memory
+      const config = { ...getMonthConfigsForChain("pharos-atlantic")[0], chainSlug: `env-test-${++run}` as ChainId };
+      await corrupt.set(`blockrange_${config.chainSlug}_${config.year}_${config.name}`, "{not json");
+      configureActivityCheck({ baseUrl: "https://app.example", fetch: proxyFetch, cache });
+
+      expect(await resolveMonthBlockRange(chain, config)).to.deep.equal({ startBlock: 1000, endBlock: 2000 });
+    }
+  });
+
+  it("should raise failed block lookups for started months instead of using the estimates", async function () {
+    const refusing: typeof fetch = async () => new Response("Bad Request", { status: 400 });
+    configureActivityCheck({ baseUrl: "https://app.example", fetch: refusing, cache: createMemoryCacheStore() });
+    const started = { ...getMonthConfigsForChain("pharos-atlantic")[0], chainSlug: chain.slug };
+    const upcoming = { ...started, year: 2099 };
+
+    const error = await resolveMonthBlockRange(chain, started).catch((e) => e);
+    expect(error).to.be.instanceOf(ActivityCheckError);
+
+    expect(await resolveMonthBlockRange(chain, upcoming)).to.deep.equal({
+      startBlock: upcoming.startBlock,
+      endBlock: upcoming.endBlock,
+    });
+  });
+
+  it("should raise garbled activity stream lines as invalid responses", async function () {
+    const garbled: typeof fetch = async () =>
+      new Response('{"type":"progress","checked":1,"total":2}\n{"type":"res\n', {
+        headers: { "Content-Type": "application/x-ndjson" },
+      });
+    configureActivityCheck({ baseUrl: "https://app.example", fetch: garbled });
+
+    const progress: number[] = [];
+    const error = await fetchActivityForMonth(WALLET, chain.slug, "October", {
+      onProgress: (checked) => progress.push(checked),
+    }).catch((e) => e);
+    expect(progress).to.deep.equal([1]);
+    expect(error).to.be.instanceOf(ActivityCheckError);
+    expect(error.code).to.equal("invalid_response");
+    expect(error.message).to.equal("Malformed line in the activity stream");
+  });
+
+  it("should not reuse unscored active outcomes of tiered months", function () {
+    const config = getMonthConfigsForChain("pharos-atlantic")[0];
+    const tiered = { ...config, tiers: [{ name: "Bronze", minScore: 1, metadataURI: "ipfs://QmBronze" }] };
+    const outcome = { status: "active", checker: "rpc", evidence: null, questId: null, score: null, error: null } as const;
+
+    expect(isConclusiveOutcome(config, outcome)).to.equal(true);
+    expect(isConclusiveOutcome(tiered, outcome)).to.equal(false);
+    expect(isConclusiveOutcome(tiered, { ...outcome, status: "inactive" })).to.equal(true);
+    expect(isConclusiveOutcome(config, { ...outcome, status: "unknown" })).to.equal(false);
+  });
+
+  describe("cache stores", function () {
+    it("should store, list and delete entries in memory", async function () {
+      const store = createMemoryCacheStore();
+      await store.set("a", "1");
+      await store.set("b", "2");
+      await store.delete("a");
+
+      expect(await store.get("a")).to.equal(null);
+      expect(await store.get("b")).to.equal("2");
+      expect(await store.keys()).to.deep.equal(["b"]);
+    });
+
+    it("should persist entries to a file between instances", async function () {
+      const file = path.join(os.tmpdir(), `activity-cache-${process.pid}-${Date.now()}.json`);
+      try {
+        await createFileCacheStore(file).set("activity_key", "{}");
+
+        const reopened = createFileCacheStore(file);
+        expect(await reopened.get("activity_key")).to.equal("{}");
+        expect(await reopened.keys()).to.deep.equal(["activity_key"]);
+      } finally {
+        await fs.rm(file, { force: true });
+      }
+    });
+
+    it("should start empty from a missing file", async function () {
+      const store = createFileCacheStore(path.join(os.tmpdir(), "activity-cache-missing.json"));
+      expect(await store.keys()).to.deep.equal([]);
+    });
+  });
+});
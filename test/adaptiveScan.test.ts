@@ -0,0 +1,71 @@
+import { expect } from "chai";
+import { CHAINS } from "../src/lib/chains";
+import { checkActivity } from "../src/lib/activityCheck/explorer";
+import { type ChainConfig, type ChainId } from "../src/types";
+
+const START_BLOCK = 1;
+const END_BLOCK = 64_000;
+
+describe("Adaptive range scanning", function () {
+  const realFetch = globalThis.fetch;
+  let run = 0;
+  let chain: ChainConfig;
+  let txlistRanges: number[];
+  // Widest txlist range the explorer answers, unlimited when null
+  let maxRange: number | null;
+
+  const ok = (result: unknown) => new Response(JSON.stringify({ status: "1", message: "OK", result }));
+  const wallet = (n: number) => `0x${n.toString(16).padStart(40, "0")}`;
+
+  beforeEach(function () {
+    // A fresh slug per test starts without a learned range size
+    const base = CHAINS["pharos-atlantic"];
+    chain = {
+      ...base,
+      slug: `scan-test-${++run}` as ChainId,
+      explorerApiUrl: `https://scan-${run}.test/api`,
+      activityCheck: { ...base.activityCheck, chunkSize: 1000, requestsPerMinute: 60_000 },
+    };
+    txlistRanges = [];
+    maxRange = null;
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = new URL(String(input));
+      if (url.searchParams.get("action") === "getblocknobytime") {
+        return ok(String(END_BLOCK));
+      }
+      const span = Number(url.searchParams.get("endblock")) - Number(url.searchParams.get("startblock")) + 1;
+      txlistRanges.push(span);
+      if (maxRange !== null && span > maxRange) {
+        return new Response(JSON.stringify({ status: "0", message: "NOTOK", result: "Result window is too large" }));
+      }
+      return new Response(JSON.stringify({ status: "0", message: "No transactions found", result: [] }));
+    }) as typeof fetch;
+  });
+
+  afterEach(function () {
+    globalThis.fetch = realFetch;
+  });
+
+  it("should halve ranges the explorer refuses down to a workable size", async function () {
+    maxRange = 16_000;
+    const result = await checkActivity(chain, wallet(1), START_BLOCK, END_BLOCK);
+
+    expect(result.hasActivity).to.equal(false);
+    expect(txlistRanges).to.deep.equal([64_000, 32_000, 32_000, 16_000, 16_000, 16_000, 16_000]);
+  });
+
+  it("should widen the learned size again after scans that needed no subdivision", async function () {
+    maxRange = 16_000;
+    await checkActivity(chain, wallet(1), START_BLOCK, END_BLOCK);
+
+    // The explorer answers any range again, as it does for quieter wallets
+    maxRange = null;
+    const requestsPerScan: number[] = [];
+    for (let i = 2; i <= 4; i++) {
+      txlistRanges = [];
+      await checkActivity(chain, wallet(i), START_BLOCK, END_BLOCK);
+      requestsPerScan.push(txlistRanges.length);
+    }
+    expect(requestsPerScan).to.deep.equal([4, 2, 1]);
+  });
+});
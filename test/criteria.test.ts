@@ -0,0 +1,90 @@
+import { expect } from "chai";
+import { evaluateCriteria, matchesCriteria, needsFullScan } from "../src/lib/activityCheck/criteria";
+import { type ActivityTransaction } from "../src/types";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const DAY = 86_400;
+const MIDNIGHT = 1_767_225_600; // 2026-01-01T00:00:00Z
+
+function tx(n: number, fields: Partial<ActivityTransaction> = {}): ActivityTransaction {
+  return {
+    hash: `0x${n.toString(16).padStart(64, "0")}`,
+    blockNumber: 1000 + n,
+    timestamp: MIDNIGHT + n * 60,
+    from: WALLET,
+    to: OTHER,
+    input: "0x",
+    isError: false,
+    ...fields,
+  };
+}
+
+describe("Activity criteria", function () {
+  describe("needsFullScan", function () {
+    it("should settle on the first row without criteria", function () {
+      expect(needsFullScan()).to.equal(false);
+      expect(needsFullScan({})).to.equal(false);
+      expect(needsFullScan({ minTxCount: 1, minActiveDays: 1 })).to.equal(false);
+    });
+
+    it("should scan the whole range for any filter or threshold", function () {
+      expect(needsFullScan({ outgoingOnly: true })).to.equal(true);
+      expect(needsFullScan({ successOnly: true })).to.equal(true);
+      expect(needsFullScan({ minTxCount: 2 })).to.equal(true);
+      expect(needsFullScan({ minActiveDays: 2 })).to.equal(true);
+    });
+  });
+
+  describe("matchesCriteria", function () {
+    it("should match any transaction without criteria", function () {
+      expect(matchesCriteria(tx(1, { from: OTHER, to: WALLET, isError: true }), WALLET)).to.equal(true);
+    });
+
+    it("should only count transactions the wallet sent when outgoingOnly is set", function () {
+      const criteria = { outgoingOnly: true };
+      expect(matchesCriteria(tx(1), WALLET, criteria)).to.equal(true);
+      expect(matchesCriteria(tx(2, { from: OTHER, to: WALLET }), WALLET, criteria)).to.equal(false);
+    });
+
+    it("should skip reverted transactions when successOnly is set", function () {
+      expect(matchesCriteria(tx(1, { isError: true }), WALLET, { successOnly: true })).to.equal(false);
+      expect(matchesCriteria(tx(2), WALLET, { successOnly: true })).to.equal(true);
+    });
+  });
+
+  describe("evaluateCriteria", function () {
+    it("should report the earliest qualifying transaction as evidence", function () {
+      const result = evaluateCriteria([tx(3), tx(1, { isError: true }), tx(2)], WALLET, { successOnly: true });
+      expect(result.satisfied).to.equal(true);
+      expect(result.evidence).to.deep.equal({ hash: tx(2).hash, blockNumber: 1002, timestamp: MIDNIGHT + 120 });
+    });
+
+    it("should not be satisfied without qualifying transactions", function () {
+      const result = evaluateCriteria([tx(1, { from: OTHER, to: WALLET })], WALLET, { outgoingOnly: true });
+      expect(result).to.deep.equal({ satisfied: false, evidence: null });
+      expect(evaluateCriteria([], WALLET).satisfied).to.equal(false);
+    });
+
+    it("should require minTxCount qualifying transactions", function () {
+      const criteria = { minTxCount: 3, successOnly: true };
+      expect(evaluateCriteria([tx(1), tx(2), tx(3, { isError: true })], WALLET, criteria).satisfied).to.equal(false);
+      expect(evaluateCriteria([tx(1), tx(2), tx(3)], WALLET, criteria).satisfied).to.equal(true);
+    });
+
+    it("should require minActiveDays distinct UTC days", function () {
+      const criteria = { minActiveDays: 2 };
+      // Three transactions within the same UTC day
+      expect(evaluateCriteria([tx(1), tx(2), tx(3)], WALLET, criteria).satisfied).to.equal(false);
+
+      const nextDay = tx(4, { timestamp: MIDNIGHT + DAY });
+      expect(evaluateCriteria([tx(1), nextDay], WALLET, criteria).satisfied).to.equal(true);
+    });
+
+    it("should count active days from qualifying transactions only", function () {
+      const criteria = { minActiveDays: 2, successOnly: true };
+      const revertedNextDay = tx(4, { timestamp: MIDNIGHT + DAY, isError: true });
+      expect(evaluateCriteria([tx(1), revertedNextDay], WALLET, criteria).satisfied).to.equal(false);
+    });
+  });
+});
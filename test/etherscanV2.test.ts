@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { CHAINS } from "../src/lib/chains";
+import { getMonthConfigsForChain } from "../src/lib/contracts";
+import { checkActivity } from "../src/lib/activityCheck/explorer";
+import { fetchFromUpstreams } from "../src/lib/activityCheck/upstreams";
+import { type ChainConfig, type ChainId } from "../src/types";
+import { startEtherscanV2Server, type ExplorerFixture, type ExplorerServer } from "../scripts/mock-explorer/server";
+
+const API_KEY = "test-v2-key";
+const WALLET = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const V2_CHAINS: ChainId[] = ["ethereum-sepolia", "base-sepolia", "arbitrum-sepolia"];
+
+// One transaction per chain, each at a different block
+function fixtureFor(chainIndex: number): ExplorerFixture {
+  return {
+    genesisTimestamp: 1_700_000_000,
+    blockTime: 12,
+    latestBlock: 100_000,
+    transactions: [
+      {
+        hash: `0x${String(chainIndex + 1).padStart(64, "0")}`,
+        blockNumber: 1000 * (chainIndex + 1),
+        from: WALLET,
+        to: OTHER,
+        value: "0",
+        input: "0x",
+        isError: false,
+      },
+    ],
+  };
+}
+
+describe("Etherscan V2 chains", function () {
+  let server: ExplorerServer;
+  let run = 0;
+
+  // Point the chain's upstream at the stub; a fresh slug per test keeps the
+  // latest-block cache and circuit state from leaking between tests
+  function stubbed(slug: ChainId): ChainConfig {
+    const chain = CHAINS[slug];
+    return {
+      ...chain,
+      slug: `${slug}-${++run}` as ChainId,
+      activityCheck: {
+        ...chain.activityCheck,
+        requestsPerMinute: 60_000,
+        upstreams: chain.activityCheck.upstreams!.map((upstream) => ({ ...upstream, url: server.url })),
+      },
+    };
+  }
+
+  before(async function () {
+    server = await startEtherscanV2Server(
+      Object.fromEntries(V2_CHAINS.map((slug, i) => [CHAINS[slug].id, fixtureFor(i)])),
+      API_KEY
+    );
+  });
+
+  after(async function () {
+    await server.close();
+  });
+
+  beforeEach(function () {
+    process.env.ETHERSCAN_API_KEY = API_KEY;
+    server.requests.length = 0;
+  });
+
+  afterEach(function () {
+    delete process.env.ETHERSCAN_API_KEY;
+  });
+
+  it("should be active with month collections", function () {
+    for (const slug of V2_CHAINS) {
+      expect(CHAINS[slug].isActive).to.equal(true);
+      expect(getMonthConfigsForChain(slug)).to.have.length(5);
+    }
+  });
+
+  for (const [i, slug] of V2_CHAINS.entries()) {
+    it(`should check ${slug} with the shared key and its chainid`, async function () {
+      const result = await checkActivity(stubbed(slug), WALLET, 0, 50_000);
+
+      expect(result.hasActivity).to.equal(true);
+      expect(result.evidence?.blockNumber).to.equal(1000 * (i + 1));
+      for (const url of server.requests) {
+        expect(url.searchParams.get("chainid")).to.equal(String(CHAINS[slug].id));
+        expect(url.searchParams.get("apikey")).to.equal(API_KEY);
+      }
+    });
+  }
+
+  it("should surface V2 key errors from the body", async function () {
+    process.env.ETHERSCAN_API_KEY = "wrong-key";
+    const query = new URLSearchParams({ module: "block", action: "getblocknobytime", timestamp: "1700000000", closest: "before" });
+
+    const { data } = await fetchFromUpstreams(stubbed("base-sepolia"), query);
+    expect(data.status).to.equal("0");
+    expect(data.result).to.match(/Invalid API Key/);
+  });
+});
@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import { CHAINS } from "../src/lib/chains";
+import { checkActivity } from "../src/lib/activityCheck/explorer";
+import { type ChainConfig, type ChainId, type ExplorerDialect } from "../src/types";
+import { startExplorerServer, type ExplorerFixture, type ExplorerServer } from "../scripts/mock-explorer/server";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const CONTRACT = "0x3333333333333333333333333333333333333333";
+
+function hash(n: number): string {
+  return `0x${n.toString(16).padStart(64, "0")}`;
+}
+
+// 120 outgoing transactions, two per block, so the REST API needs three pages
+const FIXTURE: ExplorerFixture = {
+  genesisTimestamp: 1_700_000_000,
+  blockTime: 2,
+  latestBlock: 10_000,
+  transactions: [
+    { hash: hash(1), blockNumber: 500, from: OTHER, to: WALLET, value: "1", input: "0x", isError: false },
+    ...Array.from({ length: 120 }, (_, i) => ({
+      hash: hash(100 + i),
+      blockNumber: 1000 + Math.floor(i / 2) * 10,
+      from: WALLET,
+      to: i % 3 === 0 ? CONTRACT : OTHER,
+      value: "0",
+      input: i % 3 === 0 ? "0xa9059cbb" : "0x",
+      isError: i === 0,
+    })),
+  ],
+};
+
+describe("Explorer dialects", function () {
+  const dialects: ExplorerDialect[] = ["etherscan", "blockscout", "blockscout-v2"];
+  const servers = new Map<ExplorerDialect, ExplorerServer>();
+
+  // Each dialect gets its own slug so per-chain caches and queues stay apart
+  function chainFor(dialect: ExplorerDialect): ChainConfig {
+    const base = CHAINS["iopn-testnet"];
+    return {
+      ...base,
+      slug: `test-${dialect}` as ChainId,
+      explorerApiUrl: servers.get(dialect)!.url,
+      activityCheck: {
+        ...base.activityCheck,
+        dialect,
+        chunkSize: 1000,
+        maxConcurrent: 4,
+        requestsPerMinute: 60_000,
+      },
+    };
+  }
+
+  before(async function () {
+    for (const dialect of dialects) {
+      servers.set(dialect, await startExplorerServer(FIXTURE, dialect));
+    }
+  });
+
+  after(async function () {
+    for (const server of servers.values()) {
+      await server.close();
+    }
+  });
+
+  for (const dialect of dialects) {
+    it(`should find the same activity through the ${dialect} dialect`, async function () {
+      const result = await checkActivity(chainFor(dialect), WALLET, 900, 2000, {
+        criteria: { outgoingOnly: true, successOnly: true },
+        collectMetrics: true,
+      });
+
+      expect(result.hasActivity).to.equal(true);
+      // The first outgoing transaction reverted, the second one counts
+      expect(result.evidence).to.deep.equal({
+        hash: hash(101),
+        blockNumber: 1000,
+        timestamp: FIXTURE.genesisTimestamp + 1000 * FIXTURE.blockTime,
+      });
+      expect(result.metrics).to.deep.equal({ txCount: 119, activeDays: 1, distinctContracts: 1 });
+    });
+
+    it(`should report no activity outside the wallet's blocks (${dialect})`, async function () {
+      const result = await checkActivity(chainFor(dialect), WALLET, 2000, 3000, { collectMetrics: true });
+      expect(result.hasActivity).to.equal(false);
+      expect(result.metrics?.txCount).to.equal(0);
+    });
+  }
+
+  it("should follow the REST API cursor from the end of the range", async function () {
+    const server = servers.get("blockscout-v2")!;
+    server.requests.length = 0;
+    await checkActivity(chainFor("blockscout-v2"), WALLET, 1100, 1400, { collectMetrics: true });
+
+    const pages = server.requests.filter((url) => url.pathname.startsWith("/api/v2/"));
+    expect(pages[0].pathname).to.equal(`/api/v2/addresses/${WALLET}/transactions`);
+    expect(pages[0].searchParams.get("block_number")).to.equal("1401");
+    expect(pages[0].searchParams.get("index")).to.equal("0");
+    // Rows below block 1100 show up on the second page, which ends the scan
+    expect(pages).to.have.length(2);
+    expect(pages[1].searchParams.get("items_count")).to.equal("50");
+  });
+});
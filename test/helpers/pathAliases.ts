@@ -0,0 +1,15 @@
+import Module from "module";
+import path from "path";
+
+// Resolve the app's "@/" imports (tsconfig paths) so route handlers can be
+// loaded outside Next.js. Import before anything that uses them.
+const SRC = path.resolve(__dirname, "../../src");
+
+type Resolve = (request: string, ...rest: unknown[]) => string;
+const loader = Module as unknown as { _resolveFilename: Resolve };
+const resolve = loader._resolveFilename;
+
+loader._resolveFilename = function (this: unknown, request: string, ...rest: unknown[]) {
+  const target = request.startsWith("@/") ? path.join(SRC, request.slice(2)) : request;
+  return resolve.call(this, target, ...rest);
+};
@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { createServer, type Server } from "http";
+import { type AddressInfo } from "net";
+import { CHAINS } from "../src/lib/chains";
+import { getMonthConfigsForChain } from "../src/lib/contracts";
+import { resolveMonthBlockRange } from "../src/lib/activityCheck/blockRange";
+import { checkActivity } from "../src/lib/activityCheck/rpc";
+import { ActivityCheckError } from "../src/lib/activityCheck/errors";
+import { type ChainConfig, type ChainId } from "../src/types";
+
+const { ethers } = hre;
+
+// Serve the in-process Hardhat network over HTTP, as `npx hardhat node` does
+function startRpcServer(): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      const { id, method, params } = JSON.parse(body);
+      let reply: object;
+      try {
+        reply = { jsonrpc: "2.0", id, result: await hre.network.provider.request({ method, params }) };
+      } catch (error) {
+        reply = { jsonrpc: "2.0", id, error: { code: -32603, message: (error as Error).message } };
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(reply));
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("Localhost chain", function () {
+  let server: Server;
+  let chain: ChainConfig;
+  let run = 0;
+
+  before(async function () {
+    server = await startRpcServer();
+  });
+
+  // A fresh slug per test gets a fresh RPC client, whose block number cache
+  // would otherwise hide blocks mined moments ago
+  beforeEach(function () {
+    const { port } = server.address() as AddressInfo;
+    chain = { ...CHAINS.localhost, slug: `localhost-${++run}` as ChainId, rpcUrl: `http://127.0.0.1:${port}` };
+  });
+
+  after(async function () {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should be checked over RPC alone and match Hardhat's chain id", async function () {
+    expect(chain.activityCheck.checkers).to.deep.equal(["rpc"]);
+    expect(chain.id).to.equal(Number((await ethers.provider.getNetwork()).chainId));
+  });
+
+  it("should span the whole local chain in every month", async function () {
+    for (const config of getMonthConfigsForChain("localhost")) {
+      const range = await resolveMonthBlockRange(chain, config);
+      expect(range).to.deep.equal({ startBlock: 0, endBlock: Number.MAX_SAFE_INTEGER });
+    }
+  });
+
+  it("should find a local transaction with the RPC checker", async function () {
+    const [funder] = await ethers.getSigners();
+    const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+    const idle = ethers.Wallet.createRandom();
+    await (await funder.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") })).wait();
+    const receipt = await (await wallet.sendTransaction({ to: funder.address, value: 1 })).wait();
+
+    const { startBlock, endBlock } = await resolveMonthBlockRange(chain, getMonthConfigsForChain("localhost")[0]);
+    const result = await checkActivity(chain, wallet.address, startBlock, endBlock);
+    expect(result.hasActivity).to.equal(true);
+    expect(result.evidence?.hash).to.equal(receipt!.hash);
+    expect(result.evidence?.blockNumber).to.equal(receipt!.blockNumber);
+
+    const outgoing = await checkActivity(chain, idle.address, startBlock, endBlock, { criteria: { outgoingOnly: true } });
+    expect(outgoing.hasActivity).to.equal(false);
+  });
+
+  it("should not call a wallet inactive when incoming transactions could count", async function () {
+    const [funder] = await ethers.getSigners();
+    const receiver = ethers.Wallet.createRandom();
+    await (await funder.sendTransaction({ to: receiver.address, value: 1 })).wait();
+
+    const { startBlock, endBlock } = await resolveMonthBlockRange(chain, getMonthConfigsForChain("localhost")[0]);
+    const error = await checkActivity(chain, receiver.address, startBlock, endBlock).catch((e) => e);
+    expect(error).to.be.instanceOf(ActivityCheckError);
+    expect(error.code).to.equal("unsupported_criteria");
+  });
+});
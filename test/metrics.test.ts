@@ -0,0 +1,43 @@
+import { expect } from "chai";
+import { createCounter, createHistogram, renderMetrics } from "../src/lib/metrics/registry";
+
+describe("Metrics registry", function () {
+  const lines = () => renderMetrics().split("\n");
+
+  it("should render counters per label set", function () {
+    const counter = createCounter("test_requests_total", "Test requests", ["chain", "outcome"]);
+    counter.inc({ chain: "pharos-atlantic", outcome: "success" });
+    counter.inc({ chain: "pharos-atlantic", outcome: "success" }, 2);
+    counter.inc({ chain: "iopn-testnet", outcome: "timeout" });
+
+    expect(lines()).to.include.members([
+      "# HELP test_requests_total Test requests",
+      "# TYPE test_requests_total counter",
+      'test_requests_total{chain="pharos-atlantic",outcome="success"} 3',
+      'test_requests_total{chain="iopn-testnet",outcome="timeout"} 1',
+    ]);
+  });
+
+  it("should render cumulative histogram buckets with sum and count", function () {
+    const histogram = createHistogram("test_duration_seconds", "Test duration", ["chain"], [0.1, 1]);
+    histogram.observe({ chain: "a" }, 0.05);
+    histogram.observe({ chain: "a" }, 0.5);
+    histogram.observe({ chain: "a" }, 2);
+
+    expect(lines()).to.include.members([
+      "# TYPE test_duration_seconds histogram",
+      'test_duration_seconds_bucket{chain="a",le="0.1"} 1',
+      'test_duration_seconds_bucket{chain="a",le="1"} 2',
+      'test_duration_seconds_bucket{chain="a",le="+Inf"} 3',
+      'test_duration_seconds_sum{chain="a"} 2.55',
+      'test_duration_seconds_count{chain="a"} 3',
+    ]);
+  });
+
+  it("should escape label values", function () {
+    const counter = createCounter("test_escaped_total", "Escaping", ["value"]);
+    counter.inc({ value: 'a "quoted"\\path\nline' });
+
+    expect(lines()).to.include('test_escaped_total{value="a \\"quoted\\"\\\\path\\nline"} 1');
+  });
+});
@@ -0,0 +1,248 @@
+import "./helpers/pathAliases";
+import { expect } from "chai";
+import { NextRequest } from "next/server";
+import { CHAINS } from "../src/lib/chains";
+import { getMonthConfigsForChain } from "../src/lib/contracts";
+import { checkActivity, getBlockNumberByTime } from "../src/lib/activityCheck/explorer";
+import { fetchJson } from "../src/lib/activityCheck/http";
+import { getExplorerStats } from "../src/lib/activityCheck/stats";
+import { handleExplorerRequest } from "../src/lib/proxy/handler";
+import { getBlockBounds } from "../src/lib/proxy/validation";
+import { type ChainConfig, type ChainId } from "../src/types";
+import { createSeededFixture } from "../scripts/mock-explorer/fixture";
+import { startExplorerServer, type ExplorerServer } from "../scripts/mock-explorer/server";
+
+// Blocks and times inside every active chain's months, so the proxy accepts them
+const START_BLOCK = 74_250;
+const LATEST_BLOCK = 500_000;
+const GENESIS_TIMESTAMP = 1_759_000_000;
+const CRITERIA = { outgoingOnly: true, successOnly: true };
+
+const { fixture, wallets, idleWallets } = createSeededFixture({
+  seed: 42,
+  startBlock: START_BLOCK,
+  latestBlock: LATEST_BLOCK,
+  genesisTimestamp: GENESIS_TIMESTAMP,
+});
+
+function firstSent(wallet: string) {
+  return fixture.transactions.find((tx) => tx.from === wallet && !tx.isError)!;
+}
+
+describe("Mock explorer", function () {
+  this.timeout(20_000);
+
+  const slugs: ChainId[] = ["pharos-atlantic", "iopn-testnet"];
+  let server: ExplorerServer;
+  let run = 0;
+
+  // A fresh server per test gives fresh upstream circuit state; a fresh slug
+  // keeps the latest-block cache and request queue apart
+  async function mockChain(slug: ChainId): Promise<ChainConfig> {
+    const chain = CHAINS[slug];
+    server = await startExplorerServer(fixture, chain.activityCheck.dialect, { seed: 42 });
+    return {
+      ...chain,
+      slug: `${slug}-mock-${++run}` as ChainId,
+      explorerApiUrl: server.url,
+      activityCheck: { ...chain.activityCheck, requestsPerMinute: 60_000 },
+    };
+  }
+
+  afterEach(async function () {
+    await server?.close();
+  });
+
+  it("should generate the same fixture from the same seed", function () {
+    const again = createSeededFixture({
+      seed: 42,
+      startBlock: START_BLOCK,
+      latestBlock: LATEST_BLOCK,
+      genesisTimestamp: GENESIS_TIMESTAMP,
+    });
+    expect(again.fixture).to.deep.equal(fixture);
+    expect(createSeededFixture({ seed: 43 }).wallets).to.not.deep.equal(wallets);
+  });
+
+  for (const slug of slugs) {
+    it(`should find a seeded wallet's activity through the ${slug} checker`, async function () {
+      const chain = await mockChain(slug);
+      const result = await checkActivity(chain, wallets[0], START_BLOCK, LATEST_BLOCK, { criteria: CRITERIA });
+      expect(result.hasActivity).to.equal(true);
+
+      if (chain.activityCheck.dialect !== "blockscout-v2") {
+        const expected = firstSent(wallets[0]);
+        expect(result.evidence?.hash).to.equal(expected.hash);
+        expect(result.evidence?.blockNumber).to.equal(expected.blockNumber);
+        return;
+      }
+      // The REST API pages newest first and the scan stops at the first page
+      // that settles the check, so the evidence is a later transaction
+      const sent = fixture.transactions.filter((tx) => tx.from === wallets[0] && !tx.isError);
+      expect(sent.map((tx) => tx.hash)).to.include(result.evidence?.hash);
+      expect(server.requests.filter((url) => url.pathname.includes("/v2/"))).to.have.length(1);
+    });
+
+    it(`should find nothing for an idle wallet through the ${slug} checker`, async function () {
+      const chain = await mockChain(slug);
+      const result = await checkActivity(chain, idleWallets[0], START_BLOCK, LATEST_BLOCK);
+      expect(result.hasActivity).to.equal(false);
+    });
+  }
+
+  describe("error modes", function () {
+    it("should retry after a 429 and still find the activity", async function () {
+      const chain = await mockChain("pharos-atlantic");
+      server.setFault({ mode: "rate_limit", times: 1 });
+
+      const result = await checkActivity(chain, wallets[1], START_BLOCK, LATEST_BLOCK, { criteria: CRITERIA });
+      expect(result.evidence?.hash).to.equal(firstSent(wallets[1]).hash);
+    });
+
+    it("should reject malformed JSON as an invalid response", async function () {
+      const chain = await mockChain("iopn-testnet");
+      server.setFault({ mode: "malformed" });
+
+      const error = await checkActivity(chain, wallets[1], START_BLOCK, LATEST_BLOCK).catch((e) => e);
+      expect(error.code).to.equal("invalid_response");
+    });
+
+    it("should wait out slow responses", async function () {
+      const chain = await mockChain("pharos-atlantic");
+      server.setFault({ mode: "slow", delayMs: 300 });
+
+      const startedAt = Date.now();
+      const result = await checkActivity(chain, wallets[2], START_BLOCK, LATEST_BLOCK, { criteria: CRITERIA });
+      expect(result.evidence?.hash).to.equal(firstSent(wallets[2]).hash);
+      expect(Date.now() - startedAt).to.be.at.least(300);
+    });
+
+    it("should stop waiting on a slow response once aborted", async function () {
+      const chain = await mockChain("pharos-atlantic");
+      server.setFault({ mode: "slow", delayMs: 5000 });
+
+      const startedAt = Date.now();
+      const error = await checkActivity(chain, wallets[2], START_BLOCK, LATEST_BLOCK, {
+        signal: AbortSignal.timeout(200),
+      }).catch((e) => e);
+      expect(error.name).to.equal("TimeoutError");
+      expect(Date.now() - startedAt).to.be.below(5000);
+    });
+
+    it("should stop waiting on a stalled body once aborted", async function () {
+      const chain = await mockChain("pharos-atlantic");
+      server.setFault({ mode: "stalled", delayMs: 5000 });
+
+      const startedAt = Date.now();
+      const url = `${chain.explorerApiUrl}?module=proxy&action=eth_blockNumber`;
+      const error = await fetchJson<never>(url, AbortSignal.timeout(200)).catch((e: Error) => e);
+      expect(error.name).to.equal("TimeoutError");
+      expect(Date.now() - startedAt).to.be.below(5000);
+    });
+  });
+
+  describe("proxy", function () {
+    let chain: ChainConfig;
+
+    // The registry's chain pointed at the mock, as with PHAROS_EXPLORER_API_URL set.
+    // It keeps its slug, which the proxy validates month ranges by.
+    beforeEach(async function () {
+      const registered = CHAINS["pharos-atlantic"];
+      server = await startExplorerServer(fixture, registered.activityCheck.dialect);
+      chain = { ...registered, explorerApiUrl: server.url };
+    });
+
+    function proxy(params: Record<string, string>) {
+      const query = new URLSearchParams({ chain: chain.slug, ...params });
+      return handleExplorerRequest(chain, new NextRequest(`http://localhost/api/explorer?${query}`));
+    }
+
+    function txlist(address: string) {
+      return proxy({
+        module: "account",
+        action: "txlist",
+        address,
+        startblock: String(START_BLOCK),
+        endblock: String(LATEST_BLOCK),
+        page: "1",
+        offset: "100",
+        sort: "asc",
+      });
+    }
+
+    it("should serve txlist from the mock and cache it", async function () {
+      const first = await txlist(wallets[3]);
+      expect(first.status).to.equal(200);
+      expect(first.headers.get("X-Cache")).to.equal("MISS");
+      expect(first.headers.get("X-Explorer-Upstream")).to.equal(new URL(server.url).host);
+
+      const body = await first.json();
+      const expected = fixture.transactions.filter((tx) => tx.from === wallets[3] || tx.to === wallets[3]);
+      expect(body.result.map((tx: { hash: string }) => tx.hash)).to.deep.equal(expected.map((tx) => tx.hash));
+
+      const second = await txlist(wallets[3]);
+      expect(second.headers.get("X-Cache")).to.equal("HIT");
+      // The month bounds the proxy validates against are looked up on top
+      expect(server.requests.filter((url) => url.searchParams.get("action") === "txlist")).to.have.length(1);
+    });
+
+    it("should serve getblocknobytime from the mock's block clock", async function () {
+      const block = 250_000;
+      const timestamp = fixture.genesisTimestamp + block * fixture.blockTime;
+      const response = await proxy({
+        module: "block",
+        action: "getblocknobytime",
+        timestamp: String(timestamp),
+        closest: "before",
+      });
+
+      expect(response.status).to.equal(200);
+      expect((await response.json()).result).to.equal(String(block));
+    });
+
+    it("should accept block ranges resolved from the month dates beyond the registry's estimates", async function () {
+      // A block clock that puts February 2026 far past its estimated end block
+      await server.close();
+      server = await startExplorerServer(
+        { ...fixture, genesisTimestamp: 1_740_000_000, blockTime: 1, latestBlock: 40_000_000 },
+        chain.activityCheck.dialect
+      );
+      const fresh = { ...chain, slug: `pharos-atlantic-bounds-${++run}` as ChainId, explorerApiUrl: server.url };
+      const months = getMonthConfigsForChain("pharos-atlantic").map((config) => ({ ...config, chainSlug: fresh.slug }));
+
+      const endOfFebruary = Date.UTC(2026, 2, 1) / 1000 - 1;
+      expect(await getBlockBounds(fresh, months)).to.deep.equal({
+        min: months[0].startBlock,
+        max: endOfFebruary - 1_740_000_000,
+      });
+    });
+
+    it("should share cached answers and their stats with server-side checks", async function () {
+      const block = 260_000;
+      const timestamp = fixture.genesisTimestamp + block * fixture.blockTime;
+      expect(await getBlockNumberByTime(chain, timestamp, "before")).to.equal(block);
+
+      const response = await proxy({
+        module: "block",
+        action: "getblocknobytime",
+        timestamp: String(timestamp),
+        closest: "before",
+      });
+      expect(response.headers.get("X-Cache")).to.equal("HIT");
+      expect((await response.json()).result).to.equal(String(block));
+
+      const stats = getExplorerStats(chain.slug);
+      expect(stats.requests).to.be.greaterThan(0);
+      expect(stats.cacheHitRate).to.not.equal(null);
+      expect(stats.throttledRate).to.not.equal(null);
+    });
+
+    it("should answer 502 when the explorer returns malformed JSON", async function () {
+      server.setFault({ mode: "malformed" });
+      const response = await txlist(wallets[4]);
+
+      expect(response.status).to.equal(502);
+      expect((await response.json()).error.code).to.equal("upstream_error");
+    });
+  });
+});
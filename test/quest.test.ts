@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { CHAINS } from "../src/lib/chains";
+import { matchesQuest } from "../src/lib/activityCheck/criteria";
+import { checkQuests } from "../src/lib/activityCheck/quest";
+import { type ActivityTransaction, type ChainConfig, type ChainId, type QuestRequirement } from "../src/types";
+import { startExplorerServer, type ExplorerFixture, type ExplorerServer } from "../scripts/mock-explorer/server";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const OTHER = "0x2222222222222222222222222222222222222222";
+const BRIDGE = "0x3333333333333333333333333333333333333333";
+const SWAP = "0x4444444444444444444444444444444444444444";
+const DEPOSIT = "0xd0e30db0";
+const TRANSFER = "0xa9059cbb";
+
+function hash(n: number): string {
+  return `0x${n.toString(16).padStart(64, "0")}`;
+}
+
+function tx(fields: Partial<ActivityTransaction> = {}): ActivityTransaction {
+  return {
+    hash: hash(1),
+    blockNumber: 1000,
+    timestamp: 1_700_000_000,
+    from: WALLET,
+    to: BRIDGE,
+    input: `${DEPOSIT}${"00".repeat(32)}`,
+    isError: false,
+    ...fields,
+  };
+}
+
+const FIXTURE: ExplorerFixture = {
+  genesisTimestamp: 1_700_000_000,
+  blockTime: 2,
+  latestBlock: 10_000,
+  transactions: [
+    { hash: hash(1), blockNumber: 1000, from: WALLET, to: BRIDGE, value: "0", input: DEPOSIT, isError: true },
+    { hash: hash(2), blockNumber: 1100, from: OTHER, to: SWAP, value: "0", input: TRANSFER, isError: false },
+    { hash: hash(3), blockNumber: 1200, from: WALLET, to: SWAP, value: "0", input: TRANSFER, isError: false },
+    { hash: hash(4), blockNumber: 1300, from: WALLET, to: BRIDGE, value: "0", input: DEPOSIT, isError: false },
+  ],
+};
+
+describe("Quest requirements", function () {
+  describe("matchesQuest", function () {
+    const quest: QuestRequirement = { id: "bridge", label: "Bridge", contract: BRIDGE, selectors: [DEPOSIT] };
+
+    it("should match successful calls the wallet sent to the quest contract", function () {
+      expect(matchesQuest(tx(), WALLET, quest)).to.equal(true);
+    });
+
+    it("should skip calls from others, reverted calls and calls to other contracts", function () {
+      expect(matchesQuest(tx({ from: OTHER }), WALLET, quest)).to.equal(false);
+      expect(matchesQuest(tx({ isError: true }), WALLET, quest)).to.equal(false);
+      expect(matchesQuest(tx({ to: SWAP }), WALLET, quest)).to.equal(false);
+    });
+
+    it("should only accept the listed selectors", function () {
+      expect(matchesQuest(tx({ input: TRANSFER }), WALLET, quest)).to.equal(false);
+      expect(matchesQuest(tx({ input: "0x" }), WALLET, quest)).to.equal(false);
+      expect(matchesQuest(tx({ input: TRANSFER }), WALLET, { ...quest, selectors: undefined })).to.equal(true);
+    });
+  });
+
+  describe("checkQuests", function () {
+    let server: ExplorerServer;
+    let run = 0;
+    let chain: ChainConfig;
+
+    // A fresh slug per test keeps the response cache and request queue apart
+    beforeEach(async function () {
+      const base = CHAINS["iopn-testnet"];
+      server = await startExplorerServer(FIXTURE, "etherscan");
+      chain = {
+        ...base,
+        slug: `test-quests-${++run}` as ChainId,
+        explorerApiUrl: server.url,
+        activityCheck: { ...base.activityCheck, dialect: "etherscan", chunkSize: 5000, requestsPerMinute: 60_000 },
+      };
+    });
+
+    afterEach(async function () {
+      await server.close();
+    });
+
+    it("should report the first requirement the wallet met", async function () {
+      const quests: QuestRequirement[] = [
+        { id: "stake", label: "Stake", contract: OTHER },
+        { id: "bridge", label: "Bridge", contract: BRIDGE, selectors: [DEPOSIT] },
+        { id: "swap", label: "Swap", contract: SWAP },
+      ];
+      const result = await checkQuests(chain, WALLET, 900, 2000, quests);
+
+      expect(result.hasActivity).to.equal(true);
+      expect(result.questId).to.equal("bridge");
+      expect(result.checker).to.equal("explorer");
+      // The reverted deposit does not count
+      expect(result.evidence?.hash).to.equal(hash(4));
+    });
+
+    it("should report no quest when none was met", async function () {
+      const quests: QuestRequirement[] = [
+        { id: "stake", label: "Stake", contract: OTHER },
+        { id: "swap", label: "Swap", contract: SWAP, selectors: [DEPOSIT] },
+      ];
+      const result = await checkQuests(chain, WALLET, 900, 2000, quests);
+
+      expect(result).to.deep.equal({ hasActivity: false, evidence: null, metrics: null, questId: null, checker: null });
+    });
+
+    it("should only look inside the block range", async function () {
+      const quests: QuestRequirement[] = [{ id: "bridge", label: "Bridge", contract: BRIDGE }];
+      const result = await checkQuests(chain, WALLET, 900, 1250, quests);
+
+      expect(result.hasActivity).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import "./helpers/pathAliases";
+import { expect } from "chai";
+import { NextRequest } from "next/server";
+import { GET as getActivity } from "../src/app/api/activity/route";
+import { getMonthConfigsForChain } from "../src/lib/contracts";
+import {
+  createMemoryStore,
+  createRedisStore,
+  createSlidingWindowLimiter,
+  getClientIp,
+  rateLimitHeaders,
+  type RedisLikeClient,
+} from "../src/lib/proxy/rateLimit";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+
+// In-memory stand-in for a Redis server, honoring PX expiries against a fake clock
+function createFakeRedis(now: () => number): RedisLikeClient & { expiries: Map<string, number> } {
+  const values = new Map<string, number>();
+  const expiries = new Map<string, number>();
+  const live = (key: string) => {
+    const expiresAt = expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= now()) {
+      values.delete(key);
+      expiries.delete(key);
+    }
+    return values.get(key);
+  };
+
+  return {
+    expiries,
+    async set(key, value, _mode, ms) {
+      if (live(key) !== undefined) return null;
+      values.set(key, Number(value));
+      expiries.set(key, now() + ms);
+      return "OK";
+    },
+    async incr(key) {
+      const value = (live(key) ?? 0) + 1;
+      values.set(key, value);
+      return value;
+    },
+    async get(key) {
+      const value = live(key);
+      return value === undefined ? null : String(value);
+    },
+  };
+}
+
+describe("Proxy rate limiting", function () {
+  const WINDOW_MS = 60_000;
+  const realNow = Date.now;
+  let clock: number;
+
+  beforeEach(function () {
+    // Start exactly on a window boundary
+    clock = Math.floor(realNow() / WINDOW_MS) * WINDOW_MS;
+    Date.now = () => clock;
+  });
+
+  afterEach(function () {
+    Date.now = realNow;
+  });
+
+  describe("Memory store", function () {
+    it("should count and expire entries", async function () {
+      const store = createMemoryStore();
+      expect(await store.increment("a", 1000)).to.equal(1);
+      expect(await store.increment("a", 1000)).to.equal(2);
+      expect(await store.get("a")).to.equal(2);
+
+      clock += 1000;
+      expect(await store.get("a")).to.equal(0);
+      expect(await store.increment("a", 1000)).to.equal(1);
+    });
+
+    it("should evict the oldest entries beyond maxEntries", async function () {
+      const store = createMemoryStore({ maxEntries: 2 });
+      await store.increment("a", 1000);
+      await store.increment("b", 1000);
+      await store.increment("c", 1000);
+
+      expect(await store.get("a")).to.equal(0);
+      expect(await store.get("b")).to.equal(1);
+      expect(await store.get("c")).to.equal(1);
+    });
+  });
+
+  describe("Redis store", function () {
+    it("should set the expiry only when creating a counter", async function () {
+      const redis = createFakeRedis(() => clock);
+      const store = createRedisStore(redis);
+
+      await store.increment("a", 1000);
+      clock += 500;
+      await store.increment("a", 1000);
+
+      expect(redis.expiries.get("ratelimit:a")).to.equal(clock - 500 + 1000);
+      expect(await store.get("a")).to.equal(2);
+      clock += 500;
+      expect(await store.get("a")).to.equal(0);
+    });
+  });
+
+  describe("Sliding window limiter", function () {
+    for (const [name, makeStore] of [
+      ["memory store", () => createMemoryStore()],
+      ["Redis store", () => createRedisStore(createFakeRedis(() => clock))],
+    ] as const) {
+      it(`should allow up to the limit and then throttle (${name})`, async function () {
+        const limiter = createSlidingWindowLimiter(makeStore());
+
+        for (let i = 0; i < 3; i++) {
+          expect((await limiter.check("ip", 3, WINDOW_MS)).allowed).to.equal(true);
+        }
+        const throttled = await limiter.check("ip", 3, WINDOW_MS);
+        expect(throttled.allowed).to.equal(false);
+        expect(throttled.remaining).to.equal(0);
+        expect(throttled.retryAfterMs).to.equal(WINDOW_MS);
+      });
+    }
+
+    it("should weight the previous window by its remaining overlap", async function () {
+      const limiter = createSlidingWindowLimiter(createMemoryStore());
+      for (let i = 0; i < 4; i++) {
+        await limiter.check("ip", 4, WINDOW_MS);
+      }
+
+      // Three quarters into the next window, a quarter of the 4 old requests remains
+      clock += WINDOW_MS + (WINDOW_MS * 3) / 4;
+      for (let i = 0; i < 3; i++) {
+        expect((await limiter.check("ip", 4, WINDOW_MS)).allowed).to.equal(true);
+      }
+      expect((await limiter.check("ip", 4, WINDOW_MS)).allowed).to.equal(false);
+    });
+
+    it("should not count throttled requests", async function () {
+      const limiter = createSlidingWindowLimiter(createMemoryStore());
+      for (let i = 0; i < 7; i++) {
+        await limiter.check("ip", 2, WINDOW_MS);
+      }
+
+      // Only the 2 allowed requests carry over: a quarter of them remains
+      clock += WINDOW_MS + (WINDOW_MS * 3) / 4;
+      expect((await limiter.check("ip", 2, WINDOW_MS)).allowed).to.equal(true);
+      expect((await limiter.check("ip", 2, WINDOW_MS)).allowed).to.equal(false);
+    });
+
+    it("should keep budgets for different keys apart", async function () {
+      const limiter = createSlidingWindowLimiter(createMemoryStore());
+      await limiter.check("iopn-testnet:1.2.3.4", 1, WINDOW_MS);
+
+      expect((await limiter.check("iopn-testnet:1.2.3.4", 1, WINDOW_MS)).allowed).to.equal(false);
+      expect((await limiter.check("pharos-atlantic:1.2.3.4", 1, WINDOW_MS)).allowed).to.equal(true);
+    });
+
+    it("should report limits in headers", async function () {
+      const limiter = createSlidingWindowLimiter(createMemoryStore());
+      await limiter.check("ip", 1, WINDOW_MS);
+      clock += 15_000;
+      const headers = rateLimitHeaders(await limiter.check("ip", 1, WINDOW_MS));
+
+      expect(headers).to.deep.equal({
+        "X-RateLimit-Limit": "1",
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": "45",
+        "Retry-After": "45",
+      });
+    });
+  });
+
+  describe("Activity endpoint", function () {
+    function check(ip: string) {
+      const url = "http://localhost/api/activity?chain=unknown-chain";
+      return getActivity(new NextRequest(url, { headers: { "x-forwarded-for": ip } }));
+    }
+
+    it("should throttle each client's checks", async function () {
+      for (let i = 0; i < 30; i++) {
+        expect((await check("198.51.100.7")).status).to.equal(400);
+      }
+      const throttled = await check("198.51.100.7");
+      expect(throttled.status).to.equal(429);
+      expect(throttled.headers.get("Retry-After")).to.equal("60");
+
+      expect((await check("198.51.100.8")).status).to.equal(400);
+    });
+
+    it("should budget fresh checks in refreshes of all the chain's months", async function () {
+      // Months without a deployed contract answer right away
+      const months = getMonthConfigsForChain("pharos-atlantic");
+      const refresh = (month: string, fresh: boolean) => {
+        const query = new URLSearchParams({ chain: "pharos-atlantic", address: WALLET, month });
+        if (fresh) query.set("fresh", "1");
+        const url = `http://localhost/api/activity?${query}`;
+        return getActivity(new NextRequest(url, { headers: { "x-forwarded-for": "198.51.100.9" } }));
+      };
+
+      for (let i = 0; i < 3; i++) {
+        for (const config of months) {
+          expect((await refresh(config.name, true)).status).to.equal(200);
+        }
+      }
+      const refused = await refresh(months[0].name, true);
+      expect(refused.status).to.equal(429);
+      expect((await refused.json()).error.code).to.equal("rate_limited");
+
+      expect((await refresh(months[0].name, false)).status).to.equal(200);
+    });
+  });
+
+  describe("getClientIp", function () {
+    const headers = (values: Record<string, string>) => new Headers(values);
+
+    it("should take the address appended by the trusted proxy", function () {
+      const spoofed = headers({ "x-forwarded-for": "6.6.6.6, 1.2.3.4" });
+      expect(getClientIp(spoofed, 1)).to.equal("1.2.3.4");
+    });
+
+    it("should skip entries written by further trusted proxies", function () {
+      const chained = headers({ "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.1" });
+      expect(getClientIp(chained, 2)).to.equal("1.2.3.4");
+    });
+
+    it("should ignore forwarded headers without trusted proxies", function () {
+      expect(getClientIp(headers({ "x-forwarded-for": "1.2.3.4" }), 0)).to.equal("unknown");
+    });
+
+    it("should not trust any header when the chain is shorter than expected", function () {
+      const short = headers({ "x-forwarded-for": "1.2.3.4", "x-real-ip": "5.6.7.8" });
+      expect(getClientIp(short, 2)).to.equal("unknown");
+      expect(getClientIp(headers({ "x-real-ip": "5.6.7.8" }), 1)).to.equal("unknown");
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { CHAINS } from "../src/lib/chains";
+import { ActivityCheckError } from "../src/lib/activityCheck/errors";
+import { getQueueState, scheduleRequest } from "../src/lib/activityCheck/scheduler";
+import { type ChainConfig, type ChainId } from "../src/types";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("Explorer request scheduler", function () {
+  let run = 0;
+  let chain: ChainConfig;
+
+  // One request at a time and a token bucket that never runs dry; a fresh
+  // slug per test keeps queues and pauses apart
+  beforeEach(function () {
+    const base = CHAINS["pharos-atlantic"];
+    chain = {
+      ...base,
+      slug: `test-scheduler-${++run}` as ChainId,
+      activityCheck: { ...base.activityCheck, maxConcurrent: 1, requestsPerMinute: 600_000 },
+    };
+  });
+
+  it("should join identical requests in flight instead of sending them again", async function () {
+    let calls = 0;
+    const gate = deferred<string>();
+    const task = async () => {
+      calls++;
+      return gate.promise;
+    };
+
+    const first = scheduleRequest(chain, "same", task);
+    const second = scheduleRequest(chain, "same", task);
+    gate.resolve("answer");
+
+    expect(await Promise.all([first, second])).to.deep.equal(["answer", "answer"]);
+    expect(calls).to.equal(1);
+
+    // Settled requests are not reused
+    await scheduleRequest(chain, "same", task);
+    expect(calls).to.equal(2);
+  });
+
+  it("should keep a joined request running while another caller still waits on it", async function () {
+    const gate = deferred<string>();
+    const controller = new AbortController();
+    const task = (signal: AbortSignal) =>
+      Promise.race([gate.promise, new Promise<string>((_, reject) => signal.addEventListener("abort", reject))]);
+
+    const leaving = scheduleRequest(chain, "shared", task, { signal: controller.signal }).catch((e: Error) => e);
+    const staying = scheduleRequest(chain, "shared", task);
+    controller.abort(new Error("left"));
+    gate.resolve("answer");
+
+    expect(((await leaving) as Error).message).to.equal("left");
+    expect(await staying).to.equal("answer");
+  });
+
+  it("should start higher priorities first, in arrival order within a priority", async function () {
+    const gate = deferred<void>();
+    const started: string[] = [];
+    const task = (name: string) => async () => {
+      started.push(name);
+    };
+
+    // Hold the only slot so the rest queue up
+    const blocker = scheduleRequest(chain, "blocker", () => gate.promise);
+    const queued = [
+      scheduleRequest(chain, "low", task("low"), { priority: 0 }),
+      scheduleRequest(chain, "high-1", task("high-1"), { priority: 5 }),
+      scheduleRequest(chain, "mid", task("mid"), { priority: 1 }),
+      scheduleRequest(chain, "high-2", task("high-2"), { priority: 5 }),
+    ];
+    expect(getQueueState(chain).waiting).to.equal(4);
+
+    gate.resolve();
+    await Promise.all([blocker, ...queued]);
+    expect(started).to.deep.equal(["high-1", "high-2", "mid", "low"]);
+  });
+
+  it("should pause the chain's queue for Retry-After after a 429", async function () {
+    const limited = scheduleRequest(chain, "limited", async () => {
+      throw new ActivityCheckError("rate_limited", "Explorer rate limit reached", 300);
+    });
+    expect(await limited.catch((e: ActivityCheckError) => e.code)).to.equal("rate_limited");
+    expect(getQueueState(chain).pausedForMs).to.be.within(1, 300);
+
+    const startedAt = Date.now();
+    let ranAt = 0;
+    await scheduleRequest(chain, "next", async () => {
+      ranAt = Date.now();
+    });
+    expect(ranAt - startedAt).to.be.at.least(250);
+    expect(getQueueState(chain).pausedForMs).to.equal(0);
+  });
+
+  it("should not pause the queue for other errors", async function () {
+    const failing = scheduleRequest(chain, "failing", async () => {
+      throw new ActivityCheckError("upstream_error", "Explorer request failed");
+    });
+    expect(await failing.catch((e: ActivityCheckError) => e.code)).to.equal("upstream_error");
+    expect(getQueueState(chain).pausedForMs).to.equal(0);
+  });
+
+  it("should reject right away once the caller's signal has aborted", async function () {
+    let calls = 0;
+    const error = await scheduleRequest(chain, "aborted", async () => calls++, {
+      signal: AbortSignal.abort(new Error("gone")),
+    }).catch((e: Error) => e);
+
+    expect((error as Error).message).to.equal("gone");
+    expect(calls).to.equal(0);
+  });
+});
@@ -0,0 +1,155 @@
+import { expect } from "chai";
+import { CHAINS } from "../src/lib/chains";
+import { fetchFromUpstreams, probeUpstreams } from "../src/lib/activityCheck/upstreams";
+import { type ChainConfig } from "../src/types";
+
+type Responder = (url: URL) => Response;
+
+describe("Explorer upstream failover", function () {
+  const realFetch = globalThis.fetch;
+  const realNow = Date.now;
+  let clock: number;
+  let requests: URL[];
+  let respond: Responder;
+  let testIndex = 0;
+  let chain: ChainConfig;
+
+  const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+  const ok = (result: unknown) => json({ status: "1", message: "OK", result });
+  const query = () => new URLSearchParams({ module: "block", action: "getblocknobytime", timestamp: "1", closest: "before" });
+
+  beforeEach(function () {
+    // Circuit state is kept per upstream URL, so every test gets fresh hosts
+    testIndex++;
+    chain = {
+      ...CHAINS["pharos-atlantic"],
+      activityCheck: {
+        ...CHAINS["pharos-atlantic"].activityCheck,
+        dialect: "etherscan",
+        upstreams: [
+          { url: `https://primary-${testIndex}.test/api`, dialect: "etherscan", apiKeyEnv: "TEST_PRIMARY_KEYS" },
+          { url: `https://backup-${testIndex}.test/api`, dialect: "blockscout" },
+        ],
+      },
+    };
+    process.env.TEST_PRIMARY_KEYS = "key-a, key-b";
+
+    clock = realNow();
+    Date.now = () => clock;
+    requests = [];
+    respond = () => ok("100");
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      const url = new URL(String(input));
+      requests.push(url);
+      return respond(url);
+    }) as typeof fetch;
+  });
+
+  afterEach(function () {
+    globalThis.fetch = realFetch;
+    Date.now = realNow;
+    delete process.env.TEST_PRIMARY_KEYS;
+  });
+
+  it("should rotate through the key pool round-robin", async function () {
+    for (let i = 0; i < 3; i++) {
+      await fetchFromUpstreams(chain, query());
+    }
+    expect(requests.map((url) => url.searchParams.get("apikey"))).to.deep.equal(["key-a", "key-b", "key-a"]);
+  });
+
+  it("should fail over and normalize the block to the chain's dialect", async function () {
+    respond = (url) => (url.host.startsWith("primary") ? json({}, 503) : ok({ blockNumber: "42" }));
+
+    const { data, upstream } = await fetchFromUpstreams(chain, query());
+    expect(upstream.url).to.equal(`https://backup-${testIndex}.test/api`);
+    expect(data.result).to.equal("42");
+  });
+
+  it("should fail over on key and quota errors reported in the body", async function () {
+    respond = (url) =>
+      url.host.startsWith("primary") ? json({ status: "0", message: "NOTOK", result: "Invalid API Key" }) : ok("7");
+
+    const { upstream } = await fetchFromUpstreams(chain, query());
+    expect(upstream.url).to.equal(`https://backup-${testIndex}.test/api`);
+  });
+
+  it("should return the last error body when every upstream refuses", async function () {
+    respond = () => json({ status: "0", message: "NOTOK", result: "Max rate limit reached" });
+
+    const { data } = await fetchFromUpstreams(chain, query());
+    expect(data.result).to.equal("Max rate limit reached");
+  });
+
+  it("should open the circuit after repeated failures and probe again after the cooldown", async function () {
+    respond = (url) => (url.host.startsWith("primary") ? json({}, 500) : ok({ blockNumber: "1" }));
+    for (let i = 0; i < 3; i++) {
+      await fetchFromUpstreams(chain, query());
+    }
+
+    // Open: the primary is skipped entirely
+    requests = [];
+    await fetchFromUpstreams(chain, query());
+    expect(requests.map((url) => url.host)).to.deep.equal([`backup-${testIndex}.test`]);
+
+    // Half-open after the cooldown: a successful trial closes the circuit
+    clock += 30_000;
+    respond = () => ok("5");
+    requests = [];
+    const { upstream } = await fetchFromUpstreams(chain, query());
+    expect(upstream.url).to.equal(`https://primary-${testIndex}.test/api`);
+    expect(requests).to.have.length(1);
+  });
+
+  it("should raise upstream_error while every circuit is open", async function () {
+    respond = () => json({}, 500);
+    for (let i = 0; i < 3; i++) {
+      await fetchFromUpstreams(chain, query()).catch(() => undefined);
+    }
+
+    requests = [];
+    const error = await fetchFromUpstreams(chain, query()).catch((e) => e);
+    expect(error.code).to.equal("upstream_error");
+    expect(error.retryAfterMs).to.equal(30_000);
+    expect(requests).to.have.length(0);
+  });
+
+  it("should leave the backoff to the caller while trial requests are in flight", async function () {
+    respond = () => json({}, 500);
+    for (let i = 0; i < 3; i++) {
+      await fetchFromUpstreams(chain, query()).catch(() => undefined);
+    }
+
+    // Past the cooldown, each upstream's trial request hangs
+    clock += 30_000;
+    globalThis.fetch = (() => new Promise(() => undefined)) as typeof fetch;
+    void fetchFromUpstreams(chain, query());
+    void fetchFromUpstreams(chain, query());
+
+    const error = await fetchFromUpstreams(chain, query()).catch((e) => e);
+    expect(error.code).to.equal("upstream_error");
+    expect(error.retryAfterMs).to.equal(null);
+  });
+
+  it("should probe without opening or consulting circuits", async function () {
+    respond = (url) => (url.host.startsWith("primary") ? json({}, 500) : ok({ blockNumber: "1" }));
+    for (let i = 0; i < 3; i++) {
+      await probeUpstreams(chain, query());
+    }
+
+    // Probe failures left the primary in rotation
+    requests = [];
+    await fetchFromUpstreams(chain, query());
+    expect(requests.map((url) => url.host)[0]).to.equal(`primary-${testIndex}.test`);
+
+    // Once its circuit is open for real requests, probes still reach it
+    for (let i = 0; i < 2; i++) {
+      await fetchFromUpstreams(chain, query());
+    }
+    respond = () => ok("5");
+    requests = [];
+    const { upstream } = await probeUpstreams(chain, query());
+    expect(upstream.url).to.equal(`https://primary-${testIndex}.test/api`);
+    expect(requests).to.have.length(1);
+  });
+});